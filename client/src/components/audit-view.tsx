@@ -0,0 +1,348 @@
+import { Fragment, useState, useEffect } from "react";
+import { ChevronDown, ChevronRight, Download, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { MCPAuditDecision, MCPAuditEntry } from "@shared/mcp-types";
+
+const PAGE_SIZE = 100;
+
+const decisionStyles: Record<MCPAuditDecision, string> = {
+  allowed: "bg-green-100 text-green-800 border-green-200",
+  approved: "bg-blue-100 text-blue-800 border-blue-200",
+  denied: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  blocked: "bg-red-100 text-red-800 border-red-200",
+};
+
+interface AuditFilters {
+  serverId: string;
+  toolName: string;
+  conversationId: string;
+  actor: string;
+  decision: string;
+  errors: boolean;
+  since: string;
+  until: string;
+}
+
+const emptyFilters: AuditFilters = {
+  serverId: "",
+  toolName: "",
+  conversationId: "",
+  actor: "all",
+  decision: "all",
+  errors: false,
+  since: "",
+  until: "",
+};
+
+// The filters as query parameters for both the list and the export
+function toQuery(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  (["serverId", "toolName", "conversationId"] as const).forEach(key => {
+    if (filters[key].trim()) {
+      params.set(key, filters[key].trim());
+    }
+  });
+  if (filters.actor !== "all") {
+    params.set("actor", filters.actor);
+  }
+  if (filters.decision !== "all") {
+    params.set("decision", filters.decision);
+  }
+  if (filters.errors) {
+    params.set("errors", "true");
+  }
+  // datetime-local values are local times; the server expects ISO timestamps
+  if (filters.since) {
+    params.set("since", new Date(filters.since).toISOString());
+  }
+  if (filters.until) {
+    params.set("until", new Date(filters.until).toISOString());
+  }
+  return params;
+}
+
+// Tool calls recorded in the audit trail, newest first
+export function AuditView() {
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  // The filters of the entries shown, used for further pages and the export until
+  // the edited filters are applied
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(emptyFilters);
+  const [entries, setEntries] = useState<MCPAuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Load the first page for the given filters, or the page after the last entry shown
+  const loadEntries = async (query: AuditFilters, before?: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = toQuery(query);
+      params.set("limit", String(PAGE_SIZE));
+      if (before) {
+        params.set("before", before);
+      }
+      const response = await fetch(`/api/audit?${params}`);
+      const result = await response.json();
+      if (response.ok) {
+        setAppliedFilters(query);
+        setEntries(before ? [...entries, ...result.entries] : result.entries);
+        setHasMore(result.hasMore);
+      } else {
+        setError(result.message || "Failed to load the audit trail");
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load the audit trail");
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadEntries(emptyFilters);
+  }, []);
+
+  const updateFilter = (updates: Partial<AuditFilters>) => {
+    setFilters({ ...filters, ...updates });
+  };
+
+  const exportUrl = (format: "csv" | "json") => {
+    const params = toQuery(appliedFilters);
+    params.set("format", format);
+    return `/api/audit/export?${params}`;
+  };
+
+  return (
+    <div className="space-y-4" data-testid="audit-view">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <Label className="text-xs text-gray-600">Server id</Label>
+          <Input
+            value={filters.serverId}
+            onChange={(e) => updateFilter({ serverId: e.target.value })}
+            className="font-mono text-sm"
+            data-testid="input-audit-server"
+          />
+        </div>
+        <div>
+          <Label className="text-xs text-gray-600">Tool name</Label>
+          <Input
+            value={filters.toolName}
+            onChange={(e) => updateFilter({ toolName: e.target.value })}
+            className="font-mono text-sm"
+            data-testid="input-audit-tool"
+          />
+        </div>
+        <div>
+          <Label className="text-xs text-gray-600">Conversation id</Label>
+          <Input
+            value={filters.conversationId}
+            onChange={(e) => updateFilter({ conversationId: e.target.value })}
+            className="font-mono text-sm"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-xs text-gray-600">Made by</Label>
+            <Select value={filters.actor} onValueChange={(value) => updateFilter({ actor: value })}>
+              <SelectTrigger className="text-sm" data-testid="select-audit-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                <SelectItem value="agent">AI</SelectItem>
+                <SelectItem value="user">User</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs text-gray-600">Decision</Label>
+            <Select value={filters.decision} onValueChange={(value) => updateFilter({ decision: value })}>
+              <SelectTrigger className="text-sm" data-testid="select-audit-decision">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any</SelectItem>
+                <SelectItem value="allowed">Allowed</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="denied">Denied</SelectItem>
+                <SelectItem value="blocked">Blocked</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div>
+          <Label className="text-xs text-gray-600">From</Label>
+          <Input
+            type="datetime-local"
+            value={filters.since}
+            onChange={(e) => updateFilter({ since: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+        <div>
+          <Label className="text-xs text-gray-600">Until</Label>
+          <Input
+            type="datetime-local"
+            value={filters.until}
+            onChange={(e) => updateFilter({ until: e.target.value })}
+            className="text-sm"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm self-end pb-2">
+          <Checkbox
+            checked={filters.errors}
+            onCheckedChange={(checked) => updateFilter({ errors: checked === true })}
+            data-testid="checkbox-audit-errors"
+          />
+          Failed calls only
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button onClick={() => loadEntries(filters)} disabled={isLoading} size="sm" data-testid="button-audit-apply">
+          {isLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+          Apply filters
+        </Button>
+        <Button onClick={() => setFilters(emptyFilters)} variant="ghost" size="sm">
+          Clear
+        </Button>
+        <div className="ml-auto flex items-center gap-2">
+          <Button asChild variant="outline" size="sm">
+            <a href={exportUrl("csv")} download data-testid="link-audit-export-csv">
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+          <Button asChild variant="outline" size="sm">
+            <a href={exportUrl("json")} download data-testid="link-audit-export-json">
+              <Download className="w-4 h-4 mr-2" />
+              Export JSON
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600" data-testid="text-audit-error">{error}</p>}
+
+      <div className="border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Time</TableHead>
+              <TableHead>Made by</TableHead>
+              <TableHead>Server</TableHead>
+              <TableHead>Tool</TableHead>
+              <TableHead>Decision</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+              <TableHead>Outcome</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.length === 0 && !isLoading && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-sm text-gray-500 py-8">
+                  No tool calls recorded.
+                </TableCell>
+              </TableRow>
+            )}
+            {entries.map(entry => {
+              const isExpanded = expandedId === entry.id;
+              return (
+                <Fragment key={entry.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    data-testid={`row-audit-${entry.id}`}
+                  >
+                    <TableCell>
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{entry.actor === "agent" ? "AI" : "User"}</TableCell>
+                    <TableCell className="text-sm">{entry.serverName}</TableCell>
+                    <TableCell className="font-mono text-sm">{entry.toolName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`capitalize ${decisionStyles[entry.decision]}`}>
+                        {entry.decision}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{entry.durationMs}ms</TableCell>
+                    <TableCell className="text-sm max-w-xs truncate">
+                      {entry.error
+                        ? <span className="text-red-600">{entry.error}</span>
+                        : <span className="text-gray-600">{entry.resultSummary || "—"}</span>}
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow className="bg-muted/40 hover:bg-muted/40">
+                      <TableCell />
+                      <TableCell colSpan={7} className="space-y-2 text-sm">
+                        {entry.conversationId && (
+                          <p>
+                            Conversation <span className="font-mono">{entry.conversationId}</span>
+                          </p>
+                        )}
+                        {entry.policy && (
+                          <p>
+                            {entry.policy.ruleId
+                              ? <>Policy rule <span className="font-mono">{entry.policy.ruleId}</span>: </>
+                              : "Policy: "}
+                            <span className="text-gray-600">{entry.policy.reason}</span>
+                          </p>
+                        )}
+                        {entry.approval?.scope && (
+                          <p>
+                            Approved {entry.approval.by === "user"
+                              ? "by the user when running the tool by hand"
+                              : entry.approval.remembered ? "by an earlier choice" : "by the user"} ({entry.approval.scope})
+                          </p>
+                        )}
+                        <div>
+                          <p className="text-xs text-gray-600 mb-1">Arguments</p>
+                          <pre className="bg-white dark:bg-gray-50 border rounded p-2 overflow-auto max-h-64 whitespace-pre-wrap break-all font-mono text-xs">
+                            {JSON.stringify(entry.arguments, null, 2)}
+                          </pre>
+                        </div>
+                        {entry.resultSummary && (
+                          <div>
+                            <p className="text-xs text-gray-600 mb-1">Result</p>
+                            <pre className="bg-white dark:bg-gray-50 border rounded p-2 overflow-auto max-h-64 whitespace-pre-wrap break-all font-mono text-xs">
+                              {entry.resultSummary}
+                            </pre>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button
+            onClick={() => loadEntries(appliedFilters, entries[entries.length - 1]?.id)}
+            disabled={isLoading}
+            variant="outline"
+            size="sm"
+            data-testid="button-audit-load-more"
+          >
+            {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,75 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Server, 
   Zap, 
   CheckCircle2, 
   Circle,
   Trash2,
-  RefreshCw
+  RefreshCw,
+  PlugZap,
+  LogIn,
+  LogOut,
+  Play,
+  ChevronUp,
+  MessageSquare,
+  FolderOpen
 } from "lucide-react";
-import type { ConfiguredServer } from "@/utils/mcp-storage";
-import { removeConfiguredServer } from "@/utils/mcp-storage";
+import type { ConfiguredServer, SessionState } from "@/types/mcp";
+import { isStdioConfig, DEFAULT_API_KEY_HEADER, type MCPHttpTransport, type MCPToolDrift, type MCPRiskLevel } from "@shared/mcp-types";
+import { queryClient } from "@/lib/queryClient";
+import { ToolRunPanel } from "@/components/tool-run-panel";
+import { PromptBrowser } from "@/components/prompt-browser";
+import { ResourceBrowser } from "@/components/resource-browser";
+import { ToolDriftNotice } from "@/components/tool-drift-notice";
+import { useServerEvents } from "@/hooks/use-server-events";
+
+const HTTP_TRANSPORT_LABELS: Record<MCPHttpTransport, string> = {
+  "streamable-http": "Streamable HTTP",
+  "sse": "HTTP+SSE (legacy)",
+};
+
+// How an HTTP server authenticates, without revealing the secret
+function getAuthDescription(server: ConfiguredServer): string {
+  const config = server.config;
+  if (isStdioConfig(config)) {
+    return "None";
+  }
+  switch (config.authScheme ?? (server.tokenHint ? "bearer" : "none")) {
+    case "bearer": return "Bearer Token";
+    case "basic": return `Basic (${config.username || "no username"})`;
+    case "api-key": return `API Key in ${config.apiKeyHeader || DEFAULT_API_KEY_HEADER}`;
+    case "oauth": {
+      if (!server.oauth?.signedIn) {
+        return "OAuth (not signed in)";
+      }
+      const expires = server.oauth.expiresAt ? `, token expires ${new Date(server.oauth.expiresAt).toLocaleString()}` : "";
+      return `OAuth (signed in${expires})`;
+    }
+    default: return "None";
+  }
+}
 
 interface ConfiguredServerViewProps {
   server: ConfiguredServer;
   selectedTools: Record<string, boolean>;
   onToggleToolSelection: (toolId: string, riskLevel: "low" | "medium" | "high") => void;
   onDeselectAll: (tools?: any[]) => void;
+  // Deselect tools, e.g. ones that changed since they were approved
+  onRevokeApprovals?: (toolIds: string[]) => void;
   onRefresh: () => void;
   onRemoveServer?: (serverId: string) => void;
+  // Start a chat from a prompt expanded in the Prompts tab
+  onUsePrompt?: (text: string) => void;
+  // Attach a resource read in the Resources tab to the next chat message
+  onAttachResource?: (files: File[]) => void;
 }
 
 export function ConfiguredServerView({
@@ -29,48 +77,266 @@ export function ConfiguredServerView({
   selectedTools,
   onToggleToolSelection,
   onDeselectAll,
+  onRevokeApprovals,
   onRefresh,
-  onRemoveServer
+  onRemoveServer,
+  onUsePrompt,
+  onAttachResource
 }: ConfiguredServerViewProps) {
   const [tools, setTools] = useState(server.tools || []);
   const [isLoading, setIsLoading] = useState(false);
+  // Tool whose Run panel is open
+  const [runTool, setRunTool] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState("tools");
+  // Bumped when the server says its prompt or resource list changed, so the tabs reload
+  const [promptsVersion, setPromptsVersion] = useState(0);
+  const [resourcesVersion, setResourcesVersion] = useState(0);
+  const [updatedResource, setUpdatedResource] = useState<{ uri: string; at: number } | null>(null);
+  // The last change to the tool list, and the selected tools it deselected
+  const [toolDrift, setToolDrift] = useState<{ drift: MCPToolDrift; revokedTools: string[] } | null>(null);
+
+  // Pooled session state for every server, polled so reconnects show up without a refresh
+  const { data: sessions } = useQuery<Record<string, SessionState>>({
+    queryKey: ["/api/mcp/sessions"],
+    refetchInterval: 5000,
+  });
+  const session: SessionState = sessions?.[server.id] ?? server.session ?? { status: "idle", failures: 0 };
+  const usesOAuth = !isStdioConfig(server.config) && server.config.authScheme === "oauth";
+  const needsSignIn = usesOAuth && (!server.oauth?.signedIn || Boolean(session.authRequired));
+
+  // A tool that changed or went away is no longer what the user approved
+  const handleToolDrift = (drift: MCPToolDrift) => {
+    const affected = [...drift.changed.map(change => change.name), ...drift.removed.map(tool => tool.name)];
+    const revokedTools = affected.filter(name => selectedTools[`${server.id}:${name}`]);
+    if (revokedTools.length > 0) {
+      onRevokeApprovals?.(revokedTools.map(name => `${server.id}:${name}`));
+    }
+    setToolDrift({ drift, revokedTools });
+  };
+
+  // "auto" goes back to the level detected from the tool's annotations and name
+  const handleSetRiskLevel = async (toolName: string, value: string) => {
+    const riskLevel = value === "auto" ? null : value as MCPRiskLevel;
+    try {
+      const response = await fetch(
+        `/api/mcp/servers/${encodeURIComponent(server.id)}/tools/${encodeURIComponent(toolName)}/risk`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ riskLevel }),
+        }
+      );
+      if (!response.ok) {
+        return;
+      }
+      const updated = await response.json();
+      const tool = (updated.tools || []).find((item: any) => item.name === toolName);
+      // A tool now rated high must be approved again, with its warning
+      const toolId = `${server.id}:${toolName}`;
+      if (tool?.riskLevel === "high" && selectedTools[toolId]) {
+        onRevokeApprovals?.([toolId]);
+      }
+      setTools(updated.tools || []);
+      queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+    } catch (error) {
+      console.error('Failed to set risk level:', error);
+    }
+  };
+
+  // Make the agent ask again before calling a tool the user allowed for this server
+  const handleRevokeAlwaysAllow = async (toolName: string) => {
+    try {
+      const response = await fetch(
+        `/api/mcp/servers/${encodeURIComponent(server.id)}/tools/${encodeURIComponent(toolName)}/approval`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ alwaysAllow: false }),
+        }
+      );
+      if (!response.ok) {
+        return;
+      }
+      const updated = await response.json();
+      setTools(updated.tools || []);
+      queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+    } catch (error) {
+      console.error('Failed to revoke approval:', error);
+    }
+  };
 
-  const handleRefreshTools = async () => {
+  // With acceptChanges the listed tools replace the stored ones even if they changed;
+  // otherwise a changed list is only shown, and the reviewed tools are kept
+  const handleRefreshTools = async (acceptChanges = false) => {
     setIsLoading(true);
     try {
-      // Fetch updated tools from the server
-      const response = await fetch('/api/mcp/list-tools', {
+      // Fetch updated tools from the server and store them in the registry
+      const response = await fetch(`/api/mcp/servers/${encodeURIComponent(server.id)}/refresh-tools`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(server.config),
+        body: JSON.stringify({ acceptChanges }),
       });
 
       const result = await response.json();
       if (result.success) {
         setTools(result.tools || []);
+        if (acceptChanges) {
+          setToolDrift(null);
+        } else if (result.drift) {
+          handleToolDrift(result.drift);
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
       }
     } catch (error) {
       console.error('Failed to refresh tools:', error);
     }
+    queryClient.invalidateQueries({ queryKey: ["/api/mcp/sessions"] });
     setIsLoading(false);
   };
 
+  const handleReconnect = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/mcp/servers/${encodeURIComponent(server.id)}/reconnect`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        setTools(result.tools || []);
+        if (result.drift) {
+          handleToolDrift(result.drift);
+        }
+        queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+      }
+    } catch (error) {
+      console.error('Failed to reconnect:', error);
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/mcp/sessions"] });
+    setIsLoading(false);
+  };
+
+  // The listener below outlives renders, so it refreshes through the latest handler
+  const refreshToolsRef = useRef(handleRefreshTools);
+  refreshToolsRef.current = handleRefreshTools;
+
+  // The sign-in popup reports back from the OAuth callback page
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data?.type !== "mcp-oauth") {
+        return;
+      }
+      if (event.data.success && event.data.serverId === server.id) {
+        queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+        refreshToolsRef.current();
+      } else if (!event.data.success) {
+        console.error('Sign-in failed:', event.data.error);
+      }
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [server.id]);
+
+  const handleSignIn = async () => {
+    // Opened before the request so popup blockers treat it as a response to the click
+    const popup = window.open("", "mcp-oauth", "width=600,height=700");
+    try {
+      const response = await fetch(`/api/mcp/servers/${encodeURIComponent(server.id)}/oauth/authorize`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to start sign-in");
+      }
+      if (result.authorizationUrl && popup) {
+        popup.location.href = result.authorizationUrl;
+        return;
+      }
+      popup?.close();
+      if (result.authorized) {
+        queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+        handleRefreshTools();
+      }
+    } catch (error) {
+      popup?.close();
+      console.error('Failed to sign in:', error);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await fetch(`/api/mcp/servers/${encodeURIComponent(server.id)}/oauth`, {
+        method: 'DELETE',
+      });
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/mcp/sessions"] });
+  };
+
+  useServerEvents(server.id, (notification) => {
+    if (notification.type === "resource-updated") {
+      setUpdatedResource({ uri: notification.uri, at: Date.now() });
+    } else if (notification.list === "tools") {
+      handleRefreshTools();
+    } else if (notification.list === "prompts") {
+      setPromptsVersion(version => version + 1);
+    } else {
+      setResourcesVersion(version => version + 1);
+    }
+  });
+
   // Refresh tools when server changes (for tab switching)
   useEffect(() => {
     setTools(server.tools || []);
+    setRunTool(null);
+    setActiveTab("tools");
+    setToolDrift(null);
     // Automatically refresh tools when switching to a new server tab
     handleRefreshTools();
   }, [server.id]);
 
-  const handleRemoveServer = () => {
-    removeConfiguredServer(server.id);
+  const handleRemoveServer = async () => {
+    try {
+      const response = await fetch(`/api/mcp/servers/${encodeURIComponent(server.id)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Failed to remove server (${response.status})`);
+      }
+    } catch (error) {
+      console.error('Failed to remove server:', error);
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/services"] });
     if (onRemoveServer) {
       onRemoveServer(server.id);
     }
   };
 
+  const getSessionBadge = () => {
+    if (needsSignIn) {
+      return { label: "Sign-in required", className: "bg-amber-100 text-amber-700" };
+    }
+    switch (session.status) {
+      case "connected": return { label: "Connected", className: "bg-green-100 text-green-700" };
+      case "connecting": return { label: "Connecting", className: "bg-yellow-100 text-yellow-700" };
+      case "reconnecting": return { label: "Reconnecting", className: "bg-red-100 text-red-700" };
+      default: return { label: "Idle", className: "bg-gray-100 text-gray-700" };
+    }
+  };
+
+  const sessionBadge = getSessionBadge();
+
   const getRiskLevelColor = (riskLevel: string) => {
     switch (riskLevel) {
       case "high": return "bg-red-500";
@@ -92,21 +358,62 @@ export function ConfiguredServerView({
                 {server.name}
               </h2>
             </div>
-            <Badge variant="secondary" className="bg-green-100 text-green-700">
-              Connected • {tools.length} tools
+            <Badge
+              variant="secondary"
+              className={sessionBadge.className}
+              title={session.lastError}
+              data-testid="badge-session-status"
+            >
+              {sessionBadge.label} • {tools.length} tools
             </Badge>
           </div>
           
           <div className="flex items-center gap-2">
-            <Button
-              onClick={handleRefreshTools}
-              disabled={isLoading}
-              variant="outline"
-              size="sm"
-            >
-              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-              Refresh Tools
-            </Button>
+            {needsSignIn && (
+              <Button
+                onClick={handleSignIn}
+                size="sm"
+                data-testid="button-oauth-sign-in"
+              >
+                <LogIn className="w-4 h-4 mr-2" />
+                Sign in
+              </Button>
+            )}
+            {usesOAuth && !needsSignIn && (
+              <Button
+                onClick={handleSignOut}
+                variant="outline"
+                size="sm"
+                data-testid="button-oauth-sign-out"
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign out
+              </Button>
+            )}
+            {session.status === "reconnecting" && (
+              <Button
+                onClick={handleReconnect}
+                disabled={isLoading}
+                variant="outline"
+                size="sm"
+                data-testid="button-reconnect"
+              >
+                <PlugZap className="w-4 h-4 mr-2" />
+                Reconnect
+              </Button>
+            )}
+            {/* Servers that announce tool changes are refreshed automatically */}
+            {!session.liveUpdates?.tools && (
+              <Button
+                onClick={() => handleRefreshTools()}
+                disabled={isLoading}
+                variant="outline"
+                size="sm"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh Tools
+              </Button>
+            )}
             <Button
               onClick={handleRemoveServer}
               variant="destructive"
@@ -124,101 +431,283 @@ export function ConfiguredServerView({
             <CardTitle className="text-lg">Server Details</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              <div>
-                <span className="text-gray-600 dark:text-gray-700">URL:</span>
-                <p className="font-mono text-blue-600 break-all">{server.config.url}</p>
+            {isStdioConfig(server.config) ? (
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-600 dark:text-gray-700">Command:</span>
+                  <p className="font-mono text-blue-600 break-all" data-testid="text-stdio-command">
+                    {[server.config.command, ...(server.config.args || [])].join(" ")}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-gray-600 dark:text-gray-700">Working Directory:</span>
+                  <p className="font-mono text-gray-900 dark:text-gray-800 break-all">
+                    {server.config.cwd || "Server default"}
+                  </p>
+                </div>
+                <div className="col-span-2">
+                  <span className="text-gray-600 dark:text-gray-700">Environment:</span>
+                  <p className="font-mono text-gray-900 dark:text-gray-800 break-all">
+                    {server.config.env && Object.keys(server.config.env).length > 0
+                      ? Object.entries(server.config.env).map(([key, hint]) => `${key}=${hint}`).join("  ")
+                      : "None"}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-600 dark:text-gray-700">URL:</span>
+                  <p className="font-mono text-blue-600 break-all">{server.config.url}</p>
+                </div>
+                <div>
+                  <span className="text-gray-600 dark:text-gray-700">Authentication:</span>
+                  <p className="text-gray-900 dark:text-gray-800" data-testid="text-auth-scheme">
+                    {getAuthDescription(server)}
+                    {server.tokenHint && (
+                      <span className="font-mono text-gray-500 ml-1" data-testid="text-token-hint">{server.tokenHint}</span>
+                    )}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-gray-600 dark:text-gray-700">Transport:</span>
+                  <p className="text-gray-900 dark:text-gray-800" data-testid="text-http-transport">
+                    {server.config.httpTransport ? HTTP_TRANSPORT_LABELS[server.config.httpTransport] : "Detected on first connection"}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-gray-600 dark:text-gray-700">Custom Headers:</span>
+                  <p className="font-mono text-gray-900 dark:text-gray-800 break-all" data-testid="text-custom-headers">
+                    {server.config.headers && Object.keys(server.config.headers).length > 0
+                      ? Object.entries(server.config.headers).map(([name, hint]) => `${name}: ${hint}`).join("  ")
+                      : "None"}
+                  </p>
+                </div>
               </div>
-              <div>
-                <span className="text-gray-600 dark:text-gray-700">Authentication:</span>
-                <p className="text-gray-900 dark:text-gray-800">
-                  {server.config.bearerToken ? "Bearer Token" : "None"}
-                </p>
+            )}
+
+            {/* Recent output of the server process, to diagnose startup failures */}
+            {session.stderr && session.stderr.length > 0 && (
+              <div className="mt-4 text-sm">
+                <span className="text-gray-600 dark:text-gray-700">Server Output (stderr):</span>
+                <pre
+                  className="mt-1 max-h-40 overflow-auto rounded bg-gray-50 dark:bg-gray-200 p-2 font-mono text-xs text-gray-800 whitespace-pre-wrap"
+                  data-testid="text-server-stderr"
+                >
+                  {session.stderr.join("\n")}
+                </pre>
               </div>
-            </div>
+            )}
           </CardContent>
         </Card>
 
-        {/* Available Tools */}
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <CardTitle className="flex items-center gap-2">
-                <Zap className="text-yellow-500" size={20} />
-                Available Tools ({tools.length})
-              </CardTitle>
-              <div className="flex gap-2">
-                <Button 
-                  onClick={() => onDeselectAll(tools)} 
-                  variant="outline" 
-                  size="sm"
-                  data-testid="button-deselect-all"
-                >
-                  {Object.values(selectedTools).filter(Boolean).length === 0 ? 'Select All' : 'Deselect All'}
-                </Button>
-              </div>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {tools.length === 0 ? (
-              <div className="text-center py-8">
-                <p className="text-gray-600 dark:text-gray-700">
-                  No tools available for this server.
-                </p>
-              </div>
-            ) : (
-              <div className="grid gap-3">
-                {tools.map((tool: any) => {
-                  const toolId = `${server.id}:${tool.name}`;
-                  const isSelected = selectedTools[toolId] ?? false;
-                  const riskLevel = tool.riskLevel || "low";
-
-                  return (
-                    <div
-                      key={tool.name}
-                      className={`p-4 border rounded-lg cursor-pointer transition-all ${
-                        isSelected
-                          ? "border-blue-500 bg-blue-50 dark:bg-blue-50"
-                          : "border-gray-200 hover:border-gray-300"
-                      }`}
-                      onClick={() => onToggleToolSelection(toolId, riskLevel as any)}
-                      data-testid={`tool-${tool.name}`}
+        {toolDrift && (
+          <ToolDriftNotice
+            drift={toolDrift.drift}
+            revokedTools={toolDrift.revokedTools}
+            onAccept={() => handleRefreshTools(true)}
+            onDismiss={() => setToolDrift(null)}
+          />
+        )}
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="tools" data-testid="tab-tools">
+              <Zap className="w-4 h-4 mr-2" />
+              Tools
+            </TabsTrigger>
+            <TabsTrigger value="prompts" data-testid="tab-prompts">
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Prompts
+            </TabsTrigger>
+            <TabsTrigger value="resources" data-testid="tab-resources">
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Resources
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="tools">
+            {/* Available Tools */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center gap-2">
+                    <Zap className="text-yellow-500" size={20} />
+                    Available Tools ({tools.length})
+                  </CardTitle>
+                  <div className="flex gap-2">
+                    <Button 
+                      onClick={() => onDeselectAll(tools)} 
+                      variant="outline" 
+                      size="sm"
+                      data-testid="button-deselect-all"
                     >
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
-                          {isSelected ? (
-                            <CheckCircle2 className="text-blue-500" size={20} />
-                          ) : (
-                            <Circle className="text-gray-400" size={20} />
-                          )}
-                          <div>
-                            <h4 className="font-medium text-black dark:text-gray-800">
-                              {tool.name}
-                            </h4>
-                            {tool.description && (
-                              <p className="text-sm text-gray-600 dark:text-gray-700 mt-1">
-                                {tool.description}
-                              </p>
-                            )}
+                      {Object.values(selectedTools).filter(Boolean).length === 0 ? 'Select All' : 'Deselect All'}
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {tools.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-600 dark:text-gray-700">
+                      No tools available for this server.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="grid gap-3">
+                    {tools.map((tool: any) => {
+                      const toolId = `${server.id}:${tool.name}`;
+                      const isSelected = selectedTools[toolId] ?? false;
+                      const riskLevel: MCPRiskLevel = tool.riskLevel || "medium";
+
+                      return (
+                        <div
+                          key={tool.name}
+                          className={`p-4 border rounded-lg cursor-pointer transition-all ${
+                            isSelected
+                              ? "border-blue-500 bg-blue-50 dark:bg-blue-50"
+                              : "border-gray-200 hover:border-gray-300"
+                          }`}
+                          onClick={() => onToggleToolSelection(toolId, riskLevel)}
+                          data-testid={`tool-${tool.name}`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                              {isSelected ? (
+                                <CheckCircle2 className="text-blue-500" size={20} />
+                              ) : (
+                                <Circle className="text-gray-400" size={20} />
+                              )}
+                              <div>
+                                <h4 className="font-medium text-black dark:text-gray-800">
+                                  {tool.name}
+                                </h4>
+                                {tool.description && (
+                                  <p className="text-sm text-gray-600 dark:text-gray-700 mt-1">
+                                    {tool.description}
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <div
+                                className={`w-2 h-2 rounded-full ${getRiskLevelColor(riskLevel)}`}
+                                title={tool.riskReason ? `${riskLevel} risk: ${tool.riskReason}` : `Risk Level: ${riskLevel}`}
+                              ></div>
+                              {tool.alwaysAllowed && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-xs cursor-pointer"
+                                  title="Runs without asking. Click to be asked again."
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleRevokeAlwaysAllow(tool.name);
+                                  }}
+                                  data-testid={`badge-always-allowed-${tool.name}`}
+                                >
+                                  Always allowed ×
+                                </Badge>
+                              )}
+                              <div onClick={(e) => e.stopPropagation()}>
+                                <Select
+                                  value={tool.riskOverridden ? riskLevel : "auto"}
+                                  onValueChange={(value) => handleSetRiskLevel(tool.name, value)}
+                                >
+                                  <SelectTrigger
+                                    className="h-7 w-[120px] text-xs capitalize"
+                                    title={tool.riskReason}
+                                    data-testid={`select-risk-${tool.name}`}
+                                  >
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="auto" className="text-xs capitalize">
+                                      {tool.riskOverridden ? "Auto" : `${riskLevel} (auto)`}
+                                    </SelectItem>
+                                    <SelectItem value="low" className="text-xs">Low</SelectItem>
+                                    <SelectItem value="medium" className="text-xs">Medium</SelectItem>
+                                    <SelectItem value="high" className="text-xs">High</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                              <Button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setRunTool(runTool === tool.name ? null : tool.name);
+                                }}
+                                variant="outline"
+                                size="sm"
+                                className="ml-2"
+                                data-testid={`button-open-run-${tool.name}`}
+                              >
+                                {runTool === tool.name ? (
+                                  <ChevronUp className="w-4 h-4 mr-1" />
+                                ) : (
+                                  <Play className="w-4 h-4 mr-1" />
+                                )}
+                                {runTool === tool.name ? "Hide" : "Run"}
+                              </Button>
+                            </div>
                           </div>
+
+                          {/* Clicks inside the panel must not toggle the tool's selection */}
+                          {runTool === tool.name && (
+                            <div
+                              className="mt-4 pt-4 border-t border-gray-200 cursor-auto"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              <ToolRunPanel serverId={server.id} tool={tool} />
+                            </div>
+                          )}
                         </div>
-                        <div className="flex items-center gap-2">
-                          <div
-                            className={`w-2 h-2 rounded-full ${getRiskLevelColor(riskLevel)}`}
-                            title={`Risk Level: ${riskLevel}`}
-                          ></div>
-                          <span className="text-xs text-gray-500 capitalize">
-                            {riskLevel}
-                          </span>
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="prompts">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="text-blue-600" size={20} />
+                  Prompts
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {/* Mounted only while the tab is open, so prompts are fetched on demand */}
+                {activeTab === "prompts" && (
+                  <PromptBrowser serverId={server.id} listVersion={promptsVersion} onUsePrompt={onUsePrompt} />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="resources">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FolderOpen className="text-blue-600" size={20} />
+                  Resources
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {activeTab === "resources" && (
+                  <ResourceBrowser
+                    serverId={server.id}
+                    listVersion={resourcesVersion}
+                    updatedResource={updatedResource}
+                    canSubscribe={Boolean(session.liveUpdates?.subscribe)}
+                    onAttach={onAttachResource}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
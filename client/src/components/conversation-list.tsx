@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessageSquare, Plus, Pencil, GitBranch, Trash2, Check, X } from "lucide-react";
+import type { Conversation } from "@/types/mcp";
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId?: string | null;
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onFork: (id: string) => void;
+}
+
+export function ConversationList({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onFork,
+}: ConversationListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editTitle.trim()) {
+      onRename(editingId, editTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-1" data-testid="conversation-list">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-600">
+          Threads
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onCreate}
+          className="h-6 px-2 text-xs"
+          title="New thread"
+          data-testid="button-new-conversation"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          New
+        </Button>
+      </div>
+
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {conversations.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-600 py-1">
+            No threads yet. Send a message to start one.
+          </p>
+        )}
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeConversationId;
+
+          if (editingId === conversation.id) {
+            return (
+              <div key={conversation.id} className="flex items-center gap-1">
+                <Input
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  autoFocus
+                  className="h-7 text-sm"
+                  data-testid={`input-rename-conversation-${conversation.id}`}
+                />
+                <Button variant="ghost" size="sm" onClick={commitRename} className="h-7 w-7 p-0">
+                  <Check className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="h-7 w-7 p-0">
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 rounded-md px-2 py-1 text-sm cursor-pointer ${
+                isActive
+                  ? "bg-gray-100 dark:bg-gray-300 text-black dark:text-gray-800"
+                  : "text-gray-700 dark:text-gray-700 hover:bg-gray-50 dark:hover:bg-gray-300"
+              }`}
+              onClick={() => onSelect(conversation.id)}
+              data-testid={`conversation-${conversation.id}`}
+            >
+              <MessageSquare className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate flex-1" title={conversation.title}>
+                {conversation.title}
+              </span>
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => { e.stopPropagation(); startRename(conversation); }}
+                  className="h-6 w-6 p-0"
+                  title="Rename"
+                  data-testid={`button-rename-conversation-${conversation.id}`}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => { e.stopPropagation(); onFork(conversation.id); }}
+                  className="h-6 w-6 p-0"
+                  title="Fork"
+                  data-testid={`button-fork-conversation-${conversation.id}`}
+                >
+                  <GitBranch className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => { e.stopPropagation(); onDelete(conversation.id); }}
+                  className="h-6 w-6 p-0 text-red-500 hover:text-red-600"
+                  title="Delete"
+                  data-testid={`button-delete-conversation-${conversation.id}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -4,21 +4,37 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Sun, Moon, Settings, Bot, RotateCcw, Send, Circle, Square, GripVertical, Loader2, Copy, Code, StopCircle, Paperclip, X, PanelLeftOpen, PanelRightOpen } from "lucide-react";
+import { Sun, Moon, Settings, Bot, RotateCcw, RefreshCw, Send, Circle, Square, GripVertical, Loader2, Copy, Code, StopCircle, Paperclip, X, PanelLeftOpen, PanelRightOpen, Wrench, Eye, GitBranch } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useRef, useEffect } from "react";
-import type { ChatMessage, LLMModel } from "@/types/mcp";
-import { TypewriterText } from "@/components/typewriter-text";
+import type { ChatMessage, Conversation, LLMModel } from "@/types/mcp";
 import { FilePreview } from "@/components/file-preview";
+import { ToolCallList } from "@/components/tool-call-list";
+import { MarkdownText } from "@/components/markdown-text";
+import { ConversationList } from "@/components/conversation-list";
 
 interface LeftSidebarProps {
   width: number;
   config: any;
   models: LLMModel[];
   messages: ChatMessage[];
+  hasMoreMessages: boolean;
+  isLoadingHistory: boolean;
+  loadOlderMessages: () => Promise<void>;
+  conversations: Conversation[];
+  selectConversation: (id: string | null) => void;
+  composerDraft: string | null;
+  clearComposerDraft: () => void;
+  pendingAttachments: File[];
+  clearPendingAttachments: () => void;
+  createConversation: () => void;
+  renameConversation: (id: string, title: string) => void;
+  deleteConversation: (id: string) => void;
+  forkConversation: (id: string, messageId?: string) => void;
   toggleTheme: () => void;
   sendMessage: (message: string, attachments?: File[]) => void;
   updateConfig: (updates: any) => void;
+  refreshModels: () => Promise<void>;
   isSending: boolean;
   onWidthChange: (width: number) => void;
   stopChat: () => void;
@@ -31,9 +47,23 @@ export function LeftSidebar({
   config,
   models,
   messages,
+  hasMoreMessages,
+  isLoadingHistory,
+  loadOlderMessages,
+  conversations,
+  selectConversation,
+  composerDraft,
+  clearComposerDraft,
+  pendingAttachments,
+  clearPendingAttachments,
+  createConversation,
+  renameConversation,
+  deleteConversation,
+  forkConversation,
   toggleTheme,
   sendMessage,
   updateConfig,
+  refreshModels,
   isSending,
   onWidthChange,
   stopChat,
@@ -45,15 +75,30 @@ export function LeftSidebar({
   const [showSettings, setShowSettings] = useState(false);
   const [useTextarea, setUseTextarea] = useState(true); // Always use textarea for better UX
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
-  const [completedMessages, setCompletedMessages] = useState<Set<string>>(new Set());
   const [databaseUrl, setDatabaseUrl] = useState("");
   const [ollamaBaseUrl, setOllamaBaseUrl] = useState("");
   const [showScrollBottom, setShowScrollBottom] = useState(false);
+  const [isRefreshingModels, setIsRefreshingModels] = useState(false);
   const sidebarRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  // Text handed over from elsewhere in the app, e.g. a prompt from the Prompts tab
+  useEffect(() => {
+    if (composerDraft !== null) {
+      setInputMessage(composerDraft);
+      clearComposerDraft();
+    }
+  }, [composerDraft]);
+
+  useEffect(() => {
+    if (pendingAttachments.length > 0) {
+      setAttachedFiles(prev => [...prev, ...pendingAttachments]);
+      clearPendingAttachments();
+    }
+  }, [pendingAttachments]);
+
   // Load settings from localStorage
   useEffect(() => {
     const savedDatabaseUrl = localStorage.getItem('app_database_url') || '';
@@ -62,7 +107,9 @@ export function LeftSidebar({
     setOllamaBaseUrl(savedOllamaUrl);
   }, []);
 
-  // Auto-scroll to bottom when new messages arrive and handle scroll detection
+  // Auto-scroll to bottom when new messages arrive and handle scroll detection.
+  // Prepending older history leaves the newest message unchanged and the view in place.
+  const lastMessage = messages[messages.length - 1];
   useEffect(() => {
     if (scrollAreaRef.current) {
       const scrollElement = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]');
@@ -70,7 +117,7 @@ export function LeftSidebar({
         scrollElement.scrollTop = scrollElement.scrollHeight;
       }
     }
-  }, [messages]);
+  }, [lastMessage?.id, lastMessage?.content, lastMessage?.toolCalls?.length]);
 
   // Set up scroll detection for scroll-to-bottom button
   useEffect(() => {
@@ -184,6 +231,20 @@ export function LeftSidebar({
     });
   };
 
+  const handleRefreshModels = async () => {
+    setIsRefreshingModels(true);
+    try {
+      await refreshModels();
+    } catch (error) {
+      toast({
+        title: "Model refresh failed",
+        description: error instanceof Error ? error.message : "Could not load models",
+        variant: "destructive",
+      });
+    }
+    setIsRefreshingModels(false);
+  };
+
   const scrollToBottom = () => {
     if (scrollAreaRef.current) {
       const scrollElement = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]');
@@ -228,22 +289,7 @@ export function LeftSidebar({
     return codeBlockRegex.test(content) || (content.includes('`') && singleLineCodeRegex.test(content));
   };
 
-  const renderMarkdownText = (text: string) => {
-    // Handle bold text (**text** or __text__)
-    let result = text.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-    result = result.replace(/__(.*?)__/g, '<strong>$1</strong>');
-    
-    // Handle italic text (*text* or _text_)
-    result = result.replace(/\*(.*?)\*/g, '<em>$1</em>');
-    result = result.replace(/_(.*?)_/g, '<em>$1</em>');
-    
-    // Handle inline code (`code`)
-    result = result.replace(/`(.*?)`/g, '<code class="bg-gray-100 dark:bg-gray-300 px-1 py-0.5 rounded text-sm font-mono text-black dark:text-gray-800">$1</code>');
-    
-    return result;
-  };
-
-  const renderMessageContent = (content: string, isAssistant: boolean, messageId: string, isThinking?: boolean) => {
+  const renderMessageContent = (content: string, isAssistant: boolean, isThinking?: boolean) => {
     if (isThinking) {
       return (
         <div className="flex items-center gap-2">
@@ -301,39 +347,17 @@ export function LeftSidebar({
                 </div>
               );
             } else {
-              const isCompleted = completedMessages.has(messageId);
-              if (isAssistant && !isCompleted) {
-                return (
-                  <TypewriterText
-                    key={index}
-                    text={part}
-                    speed={25}
-                    className="text-sm leading-relaxed break-words whitespace-pre-wrap overflow-hidden"
-                    onComplete={() => setCompletedMessages(prev => new Set(prev).add(messageId))}
-                  />
-                );
-              }
-              return <div key={index} className="text-sm leading-relaxed break-words whitespace-pre-wrap overflow-hidden" dangerouslySetInnerHTML={{ __html: renderMarkdownText(part) }} />;
+              return <MarkdownText key={index} text={part} className="text-sm leading-relaxed break-words overflow-hidden" />;
             }
           })}
         </div>
       );
     }
     
-    // For assistant messages without code blocks, render markdown with typewriter effect
+    // For assistant messages without code blocks, render markdown. The model may repeat
+    // tool output, so it is never written into the page as HTML.
     if (isAssistant) {
-      const isCompleted = completedMessages.has(messageId);
-      if (!isCompleted) {
-        return (
-          <TypewriterText
-            text={content}
-            speed={25}
-            className="text-sm leading-relaxed break-words whitespace-pre-wrap max-w-full overflow-hidden"
-            onComplete={() => setCompletedMessages(prev => new Set(prev).add(messageId))}
-          />
-        );
-      }
-      return <div className="text-sm leading-relaxed break-words whitespace-pre-wrap max-w-full overflow-hidden" dangerouslySetInnerHTML={{ __html: renderMarkdownText(content) }} />;
+      return <MarkdownText text={content} className="text-sm leading-relaxed break-words max-w-full overflow-hidden" />;
     }
     
     // For user messages, keep as plain text
@@ -468,12 +492,31 @@ export function LeftSidebar({
         <div className="flex items-center gap-2 mb-4">
           <Bot className="h-5 w-5 text-primary" />
           <h2 className="font-semibold text-lg text-black dark:text-gray-800">LLM Chat</h2>
-          <Button variant="ghost" size="sm" className="ml-auto" data-testid="button-refresh-chat">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => selectConversation(null)}
+            title="Start a new chat"
+            data-testid="button-refresh-chat"
+          >
             <RotateCcw className="h-4 w-4" />
           </Button>
         </div>
+
+        <div className="mb-4">
+          <ConversationList
+            conversations={conversations}
+            activeConversationId={config.activeConversationId}
+            onSelect={selectConversation}
+            onCreate={createConversation}
+            onRename={renameConversation}
+            onDelete={deleteConversation}
+            onFork={forkConversation}
+          />
+        </div>
         
-        <div className="space-y-3">
+        <div className="flex items-center gap-2">
           <Select 
             value={config.selectedModel} 
             onValueChange={(value) => updateConfig({ selectedModel: value })}
@@ -483,17 +526,41 @@ export function LeftSidebar({
             </SelectTrigger>
             <SelectContent className="z-50 border-2 bg-white dark:bg-gray-50 border-gray-300 dark:border-gray-500">
               {models.map((model) => (
-                <SelectItem key={model.id} value={model.id}>
+                <SelectItem
+                  key={model.id}
+                  value={model.id}
+                  disabled={model.available === false}
+                  title={model.error}
+                  data-testid={`option-model-${model.id}`}
+                >
                   <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                    <div className={`w-2 h-2 rounded-full ${model.available === false ? "bg-red-500" : "bg-green-500"}`}></div>
                     {model.name}
+                    {model.capabilities?.tools && (
+                      <Wrench className="h-3 w-3 text-gray-500" aria-label="Supports tools" />
+                    )}
+                    {model.capabilities?.vision && (
+                      <Eye className="h-3 w-3 text-gray-500" aria-label="Supports images" />
+                    )}
+                    {model.available === false && (
+                      <span className="text-xs text-red-500">{model.error || "Unavailable"}</span>
+                    )}
                   </div>
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
-          
-          
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleRefreshModels}
+            disabled={isRefreshingModels}
+            className="h-10 px-3"
+            title="Refresh models"
+            data-testid="button-refresh-models"
+          >
+            <RefreshCw className={`h-4 w-4 ${isRefreshingModels ? "animate-spin" : ""}`} />
+          </Button>
         </div>
       </div>
 
@@ -501,7 +568,27 @@ export function LeftSidebar({
       <div className="flex-1 relative flex flex-col min-h-0">
         <ScrollArea ref={scrollAreaRef} className="flex-1 p-4">
           <div className="space-y-4 pr-2 max-w-full pb-4">
-          {messages.length === 0 && (
+          {hasMoreMessages && (
+            <div className="flex justify-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadOlderMessages}
+                disabled={isLoadingHistory}
+                className="text-xs"
+                data-testid="button-load-older-messages"
+              >
+                {isLoadingHistory && <Loader2 className="h-3 w-3 mr-2 animate-spin" />}
+                Load earlier messages
+              </Button>
+            </div>
+          )}
+          {messages.length === 0 && isLoadingHistory && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          )}
+          {messages.length === 0 && !isLoadingHistory && (
             <div className="flex flex-col items-center justify-center py-12 text-center">
               <Bot className="h-12 w-12 text-blue-600 dark:text-blue-500 mb-4" />
               <h3 className="text-lg font-semibold text-black dark:text-gray-800 mb-2">Welcome to MCP Client</h3>
@@ -533,7 +620,13 @@ export function LeftSidebar({
                   )}
                 </div>
                 <div className="flex-1 min-w-0 overflow-hidden">
-                  {renderMessageContent(message.content, message.type === "assistant", message.id, message.isThinking)}
+                  {message.toolCalls && message.toolCalls.length > 0 && (
+                    <ToolCallList toolCalls={message.toolCalls} />
+                  )}
+                  {renderMessageContent(message.content, message.type === "assistant", message.isThinking)}
+                  {message.isStreaming && (
+                    <span className="animate-pulse text-sm" data-testid="streaming-cursor">|</span>
+                  )}
                   
                   {/* Display attached files if they exist */}
                   {message.attachedFiles && message.attachedFiles.length > 0 && (
@@ -551,14 +644,28 @@ export function LeftSidebar({
                       {formatTime(message.timestamp)}
                     </span>
                     {message.type === "assistant" && !message.isThinking && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => copyToClipboard(message.content)}
-                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground"
-                      >
-                        <Copy className="h-3 w-3" />
-                      </Button>
+                      <div className="flex items-center">
+                        {config.activeConversationId && !message.isStreaming && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => forkConversation(config.activeConversationId, message.id)}
+                            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground"
+                            title="Fork thread from here"
+                            data-testid={`button-fork-message-${message.id}`}
+                          >
+                            <GitBranch className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => copyToClipboard(message.content)}
+                          className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground"
+                        >
+                          <Copy className="h-3 w-3" />
+                        </Button>
+                      </div>
                     )}
                   </div>
                 </div>
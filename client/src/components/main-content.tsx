@@ -2,66 +2,47 @@ import { ServiceTabs } from "@/components/service-tabs";
 import { GitHubService } from "@/components/github-service";
 import { ServerConfiguration } from "@/components/server-configuration";
 import { ConfiguredServerView } from "@/components/configured-server-view";
-import type { MCPService } from "@/types/mcp";
-import { useState, useEffect } from "react";
-import { loadConfiguredServers, type ConfiguredServer } from "@/utils/mcp-storage";
+import { PolicyEditor } from "@/components/policy-editor";
+import { AuditView } from "@/components/audit-view";
+import type { MCPService, ConfiguredServer } from "@/types/mcp";
 
 interface MainContentProps {
   config: any;
   services: MCPService[];
+  configuredServers: ConfiguredServer[];
   updateConfig: (updates: any) => void;
   toggleToolSelection: (toolId: string, riskLevel: "low" | "medium" | "high") => void;
   deselectAllTools: (tools?: any[]) => void;
+  revokeToolApprovals: (toolIds: string[]) => void;
   refreshService: () => void;
   testConnection: (serviceId: string) => void;
   updateService: (data: { serviceId: string; config: any }) => void;
+  startConversationFromPrompt: (text: string) => void;
+  attachToNextMessage: (files: File[]) => void;
   isTesting: boolean;
 }
 
 export function MainContent({
   config,
   services,
+  configuredServers,
   updateConfig,
   toggleToolSelection,
   deselectAllTools,
+  revokeToolApprovals,
   refreshService,
   testConnection,
   updateService,
+  startConversationFromPrompt,
+  attachToNextMessage,
   isTesting
 }: MainContentProps) {
-  const [configuredServers, setConfiguredServers] = useState<ConfiguredServer[]>([]);
-
-  // Load configured servers on mount and listen for changes
-  useEffect(() => {
-    const loadServers = () => {
-      const servers = loadConfiguredServers();
-      setConfiguredServers(servers);
-    };
-
-    loadServers();
-
-    // Listen for storage changes
-    const handleStorageChange = (event: any) => {
-      if (event.detail?.key?.includes('configured-servers')) {
-        loadServers();
-      }
-    };
-
-    window.addEventListener('configuredServersChange', handleStorageChange);
-    
-    return () => {
-      window.removeEventListener('configuredServersChange', handleStorageChange);
-    };
-  }, []);
-
-  const handleServerAdded = (server: any) => {
-    setConfiguredServers(prev => [...prev.filter(s => s.id !== server.id), server]);
+  const handleServerAdded = (server: ConfiguredServer) => {
     // Switch to the newly added server
     updateConfig({ selectedService: server.id });
   };
 
   const handleRemoveServer = (serverId: string) => {
-    setConfiguredServers(prev => prev.filter(s => s.id !== serverId));
     // Switch to configuration tab if the removed server was selected
     if (config.selectedService === serverId) {
       updateConfig({ selectedService: "configuration" });
@@ -86,14 +67,14 @@ export function MainContent({
 
       {/* Service Tabs */}
       <ServiceTabs
-        services={[...services, ...configuredServers.map(server => ({
+        services={configuredServers.map(server => ({
           id: server.id,
           name: server.name,
           description: `Connected MCP Server (${server.tools.length} tools)`,
           icon: "server",
           connected: true,
           tools: server.tools
-        } as any))]}
+        } as any))}
         selectedService={config.selectedService}
         onSelectService={(serviceId: string) => updateConfig({ selectedService: serviceId })}
       />
@@ -117,18 +98,55 @@ export function MainContent({
           </div>
         )}
 
+        {config.selectedService === "policies" && (
+          <div className="p-6 bg-white dark:bg-gray-300">
+            <div className="max-w-4xl mx-auto space-y-6">
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold mb-2 text-black dark:text-gray-800">
+                  Tool Policies
+                </h2>
+                <p className="text-gray-600 dark:text-gray-700">
+                  Decide which tool calls the AI may make on its own, which need your approval and which are never made.
+                </p>
+              </div>
+
+              <PolicyEditor />
+            </div>
+          </div>
+        )}
+
+        {config.selectedService === "audit" && (
+          <div className="p-6 bg-white dark:bg-gray-300">
+            <div className="max-w-6xl mx-auto space-y-6">
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold mb-2 text-black dark:text-gray-800">
+                  Audit Trail
+                </h2>
+                <p className="text-gray-600 dark:text-gray-700">
+                  Every tool call made by the AI or from a server's tools, with its arguments, outcome and how it was approved.
+                </p>
+              </div>
+
+              <AuditView />
+            </div>
+          </div>
+        )}
+
         {currentConfiguredServer && (
           <ConfiguredServerView
             server={currentConfiguredServer}
             selectedTools={config.selectedTools}
             onToggleToolSelection={toggleToolSelection}
             onDeselectAll={deselectAllTools}
+            onRevokeApprovals={revokeToolApprovals}
             onRefresh={refreshService}
             onRemoveServer={handleRemoveServer}
+            onUsePrompt={startConversationFromPrompt}
+            onAttachResource={attachToNextMessage}
           />
         )}
         
-        {!currentConfiguredServer && config.selectedService !== "configuration" && (
+        {!currentConfiguredServer && config.selectedService !== "configuration" && config.selectedService !== "policies" && config.selectedService !== "audit" && (
           <div className="p-6 bg-white dark:bg-gray-300">
             <div className="text-center py-12">
               <h3 className="text-lg font-medium mb-2 text-black dark:text-gray-800" data-testid="text-service-placeholder">
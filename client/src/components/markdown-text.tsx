@@ -0,0 +1,136 @@
+import type { ReactNode } from "react";
+
+// Only links that cannot run script are made clickable
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// Code, bold, italic and links. Emphasis markers inside words (snake_case, 2*3*4) are left alone.
+const INLINE = new RegExp([
+  /(`[^`\n]+`)/,
+  /((?<![\w*])\*\*(?!\s)[^*\n]+?\*\*(?![\w*])|(?<!\w)__(?!\s)[^_\n]+?__(?!\w))/,
+  /((?<![\w*])\*(?![\s*])[^*\n]+?(?<!\s)\*(?![\w*])|(?<!\w)_(?![\s_])[^_\n]+?(?<!\s)_(?!\w))/,
+  /(\[[^\]\n]+\]\([^)\s]+\))/,
+].map(part => part.source).join("|"), "g");
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of Array.from(text.matchAll(INLINE))) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      nodes.push(text.slice(last, index));
+    }
+    const [token, code, bold, italic, link] = match;
+    const key = `${keyPrefix}-${index}`;
+    if (code) {
+      nodes.push(
+        <code key={key} className="bg-gray-100 dark:bg-gray-300 px-1 py-0.5 rounded font-mono text-black dark:text-gray-800">
+          {code.slice(1, -1)}
+        </code>
+      );
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold.slice(2, -2), key)}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), key)}</em>);
+    } else if (link) {
+      const [, label, href] = /^\[([^\]]+)\]\(([^)]+)\)$/.exec(link)!;
+      nodes.push(SAFE_LINK.test(href) ? (
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+          {label}
+        </a>
+      ) : token);
+    }
+    last = index + token.length;
+  }
+  if (last < text.length) {
+    nodes.push(text.slice(last));
+  }
+  return nodes;
+}
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+// Markdown from an untrusted source (e.g. a tool result), rendered without raw HTML:
+// headings, lists, quotes, fenced code and inline code, emphasis and links
+export function MarkdownText({ text, className = "" }: MarkdownTextProps) {
+  const blocks: ReactNode[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      const key = `p-${blocks.length}`;
+      blocks.push(<p key={key} className="whitespace-pre-wrap break-words">{renderInline(paragraph.join("\n"), key)}</p>);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      const key = `l-${blocks.length}`;
+      const items = list.items.map((item, index) => <li key={index}>{renderInline(item, `${key}-${index}`)}</li>);
+      blocks.push(list.ordered
+        ? <ol key={key} className="list-decimal pl-5">{items}</ol>
+        : <ul key={key} className="list-disc pl-5">{items}</ul>);
+      list = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = /^\s*```(.*)$/.exec(line);
+    if (fence) {
+      flushParagraph();
+      flushList();
+      const code: string[] = [];
+      for (i++; i < lines.length && !/^\s*```\s*$/.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      blocks.push(
+        <pre key={`c-${blocks.length}`} className="bg-gray-900 text-gray-100 rounded p-2 overflow-x-auto font-mono text-xs">
+          <code>{code.join("\n")}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const item = /^\s*([-*+]|\d+[.)])\s+(.*)$/.exec(line);
+    const quote = /^>\s?(.*)$/.exec(line);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      const key = `h-${blocks.length}`;
+      const size = heading[1].length <= 2 ? "text-base" : "text-sm";
+      blocks.push(<p key={key} className={`font-semibold ${size}`}>{renderInline(heading[2], key)}</p>);
+    } else if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]);
+      if (list && list.ordered !== ordered) {
+        flushList();
+      }
+      list ??= { ordered, items: [] };
+      list.items.push(item[2]);
+    } else if (quote) {
+      flushParagraph();
+      flushList();
+      const key = `q-${blocks.length}`;
+      blocks.push(
+        <blockquote key={key} className="border-l-2 border-gray-300 pl-2 text-gray-600">{renderInline(quote[1], key)}</blockquote>
+      );
+    } else if (line.trim() === "") {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  flushList();
+
+  return <div className={`space-y-2 ${className}`}>{blocks}</div>;
+}
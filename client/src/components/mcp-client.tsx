@@ -2,6 +2,7 @@ import React from "react";
 import { LeftSidebar } from "@/components/left-sidebar";
 import { MainContent } from "@/components/main-content";
 import { PermissionModal } from "@/components/permission-modal";
+import { ToolApprovalModal } from "@/components/tool-approval-modal";
 import { useMCPClient } from "@/hooks/use-mcp-client";
 
 export function MCPClient() {
@@ -38,6 +39,13 @@ export function MCPClient() {
           onDeny={mcpClient.denyPermission}
         />
       )}
+
+      {mcpClient.toolApprovalRequest && (
+        <ToolApprovalModal
+          request={mcpClient.toolApprovalRequest}
+          onRespond={mcpClient.respondToToolApproval}
+        />
+      )}
     </div>
   );
 }
@@ -17,20 +17,23 @@ export function PermissionModal({ request, onApprove, onDeny }: PermissionModalP
             <AlertTriangle className="h-5 w-5 text-destructive" />
           </div>
           <div>
-            <h3 className="font-semibold" data-testid="text-permission-title">High Risk Action</h3>
+            <h3 className="font-semibold" data-testid="text-permission-title">High Risk Tool</h3>
             <p className="text-sm text-muted-foreground" data-testid="text-permission-subtitle">
-              This action requires your approval
+              Confirm before making it available to the AI
             </p>
           </div>
         </div>
         
         <div className="bg-muted/80 backdrop-blur-sm rounded-lg p-3 mb-4 border">
           <p className="text-sm font-medium" data-testid="text-permission-description">
-            The AI wants to use <span className="font-semibold text-foreground">{request.toolName}</span>
+            Let the AI use <span className="font-semibold text-foreground">{request.toolName}</span>?
           </p>
           <p className="text-xs text-muted-foreground mt-1">
             {request.description}
           </p>
+          <p className="text-xs text-muted-foreground mt-2">
+            You will still be asked to approve each call, with its arguments.
+          </p>
         </div>
         
         <div className="flex gap-3">
@@ -47,7 +50,7 @@ export function PermissionModal({ request, onApprove, onDeny }: PermissionModalP
             onClick={onApprove}
             data-testid="button-approve-permission"
           >
-            Approve
+            Enable
           </Button>
         </div>
       </div>
@@ -0,0 +1,290 @@
+import { useState, useEffect } from "react";
+import { ShieldCheck, Plus, Trash2, ArrowUp, ArrowDown, Loader2, Save, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { MCPPolicyEffect, MCPPolicyRule, MCPRiskLevel } from "@shared/mcp-types";
+
+const RISK_LEVELS: MCPRiskLevel[] = ["low", "medium", "high"];
+
+// A rule while it is edited; its argument conditions are edited as JSON text
+interface DraftRule {
+  key: number;
+  id: string;
+  description: string;
+  effect: MCPPolicyEffect;
+  server: string;
+  tool: string;
+  riskLevels: MCPRiskLevel[];
+  argumentsText: string;
+}
+
+interface PolicySet {
+  path: string;
+  format: "json" | "yaml";
+  rules: MCPPolicyRule[];
+  error?: string;
+}
+
+let nextKey = 1;
+
+function toDraft(rule: MCPPolicyRule): DraftRule {
+  return {
+    key: nextKey++,
+    id: rule.id,
+    description: rule.description || "",
+    effect: rule.effect,
+    server: rule.server || "",
+    tool: rule.tool || "",
+    riskLevels: rule.riskLevels || [],
+    argumentsText: rule.arguments ? JSON.stringify(rule.arguments, null, 2) : "",
+  };
+}
+
+// Empty fields are left out, so they match anything
+function fromDraft(draft: DraftRule): MCPPolicyRule {
+  return {
+    id: draft.id.trim(),
+    effect: draft.effect,
+    ...(draft.description.trim() && { description: draft.description.trim() }),
+    ...(draft.server.trim() && { server: draft.server.trim() }),
+    ...(draft.tool.trim() && { tool: draft.tool.trim() }),
+    ...(draft.riskLevels.length > 0 && { riskLevels: draft.riskLevels }),
+    ...(draft.argumentsText.trim() && { arguments: JSON.parse(draft.argumentsText) }),
+  };
+}
+
+// The tool policy rules, in the order they are checked
+export function PolicyEditor() {
+  const [policySet, setPolicySet] = useState<PolicySet | null>(null);
+  const [drafts, setDrafts] = useState<DraftRule[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPolicies = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/policies');
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.message || "Failed to read policies");
+        return;
+      }
+      setPolicySet(result);
+      setDrafts(result.rules.map(toDraft));
+      setIsDirty(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to read policies");
+    }
+  };
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  const updateDraft = (key: number, updates: Partial<DraftRule>) => {
+    setDrafts(drafts.map(draft => (draft.key === key ? { ...draft, ...updates } : draft)));
+    setIsDirty(true);
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    const next = [...drafts];
+    const [draft] = next.splice(index, 1);
+    next.splice(index + offset, 0, draft);
+    setDrafts(next);
+    setIsDirty(true);
+  };
+
+  const addRule = () => {
+    setDrafts([
+      ...drafts,
+      { key: nextKey++, id: `rule-${drafts.length + 1}`, description: "", effect: "ask", server: "", tool: "", riskLevels: [], argumentsText: "" },
+    ]);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    let rules: MCPPolicyRule[];
+    try {
+      rules = drafts.map(fromDraft);
+    } catch {
+      setError("Argument conditions must be valid JSON");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/policies', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rules }),
+      });
+      const result = await response.json();
+      if (response.ok) {
+        setPolicySet(result);
+        setDrafts(result.rules.map(toDraft));
+        setIsDirty(false);
+      } else {
+        setError(result.message || "Failed to save policies");
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save policies");
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="policy-editor">
+      <p className="text-sm text-gray-600 dark:text-gray-700">
+        Rules are checked in order before every tool call, and the first that matches decides: <strong>allow</strong> runs
+        the call, <strong>deny</strong> blocks it and <strong>ask</strong> waits for your approval. Empty fields match
+        anything. When no rule matches, low risk tools run and others need approval.
+      </p>
+      {policySet && (
+        <p className="text-xs text-gray-500">
+          Saved to <span className="font-mono">{policySet.path}</span> ({policySet.format.toUpperCase()})
+        </p>
+      )}
+      {policySet?.error && (
+        <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800" data-testid="text-policy-file-error">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>The policy file could not be read, so the rules shown are the last valid ones: {policySet.error}</span>
+        </div>
+      )}
+
+      {drafts.length === 0 && (
+        <p className="text-sm text-gray-500 py-4 text-center">No rules yet.</p>
+      )}
+
+      {drafts.map((draft, index) => (
+        <Card key={draft.key} data-testid={`policy-rule-${index}`}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <ShieldCheck className="w-4 h-4 text-blue-600" />
+                <span className="text-gray-500 text-sm">{index + 1}.</span>
+                <Input
+                  value={draft.id}
+                  onChange={(e) => updateDraft(draft.key, { id: e.target.value })}
+                  className="h-8 w-48 font-mono text-sm"
+                  aria-label="Rule id"
+                  data-testid={`input-policy-id-${index}`}
+                />
+              </CardTitle>
+              <div className="flex items-center gap-1">
+                <Select value={draft.effect} onValueChange={(value) => updateDraft(draft.key, { effect: value as MCPPolicyEffect })}>
+                  <SelectTrigger className="h-8 w-[100px] text-sm" data-testid={`select-policy-effect-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="allow">Allow</SelectItem>
+                    <SelectItem value="ask">Ask</SelectItem>
+                    <SelectItem value="deny">Deny</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button onClick={() => moveDraft(index, -1)} disabled={index === 0} variant="ghost" size="sm" aria-label="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button onClick={() => moveDraft(index, 1)} disabled={index === drafts.length - 1} variant="ghost" size="sm" aria-label="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => {
+                    setDrafts(drafts.filter(item => item.key !== draft.key));
+                    setIsDirty(true);
+                  }}
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600"
+                  aria-label="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              value={draft.description}
+              onChange={(e) => updateDraft(draft.key, { description: e.target.value })}
+              placeholder="Description, shown when the rule applies"
+              className="text-sm"
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs text-gray-600">Server id</Label>
+                <Input
+                  value={draft.server}
+                  onChange={(e) => updateDraft(draft.key, { server: e.target.value })}
+                  placeholder="e.g. github or *"
+                  className="font-mono text-sm"
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-gray-600">Tool name</Label>
+                <Input
+                  value={draft.tool}
+                  onChange={(e) => updateDraft(draft.key, { tool: e.target.value })}
+                  placeholder="e.g. delete_*"
+                  className="font-mono text-sm"
+                  data-testid={`input-policy-tool-${index}`}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="text-xs text-gray-600">Risk levels</span>
+              {RISK_LEVELS.map(level => (
+                <label key={level} className="flex items-center gap-1 text-sm capitalize">
+                  <Checkbox
+                    checked={draft.riskLevels.includes(level)}
+                    onCheckedChange={(checked) => updateDraft(draft.key, {
+                      riskLevels: checked ? [...draft.riskLevels, level] : draft.riskLevels.filter(item => item !== level),
+                    })}
+                  />
+                  {level}
+                </label>
+              ))}
+            </div>
+            <div>
+              <Label className="text-xs text-gray-600">
+                Argument conditions (JSON, by argument name: <span className="font-mono">in</span>, <span className="font-mono">notIn</span>, <span className="font-mono">matches</span>, <span className="font-mono">notMatches</span>)
+              </Label>
+              <Textarea
+                value={draft.argumentsText}
+                onChange={(e) => updateDraft(draft.key, { argumentsText: e.target.value })}
+                placeholder={'{ "repo": { "notIn": ["acme/web", "acme/api"] } }'}
+                className="font-mono text-xs min-h-[60px]"
+              />
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      {error && <p className="text-sm text-red-600" data-testid="text-policy-error">{error}</p>}
+
+      <div className="flex items-center gap-2">
+        <Button onClick={addRule} variant="outline" size="sm" data-testid="button-add-policy-rule">
+          <Plus className="w-4 h-4 mr-2" />
+          Add rule
+        </Button>
+        <Button onClick={handleSave} disabled={!isDirty || isSaving} size="sm" data-testid="button-save-policies">
+          {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save
+        </Button>
+        {isDirty && (
+          <Button onClick={loadPolicies} variant="ghost" size="sm">
+            Discard changes
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState, useEffect } from "react";
+import { MessageSquare, Loader2, RefreshCw, Send, FileDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { MCPContentBlock, MCPPrompt, MCPPromptMessage } from "@shared/mcp-types";
+import { ContentBlockView } from "@/components/tool-result-view";
+
+interface ExpandedPrompt {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// Text of a content block for the chat composer; binary content is only named
+function blockToText(block: MCPContentBlock): string {
+  switch (block.type) {
+    case "text":
+      return block.text;
+    case "image":
+      return `[image: ${block.mimeType}]`;
+    case "audio":
+      return `[audio: ${block.mimeType}]`;
+    case "resource_link":
+      return block.uri;
+    case "resource":
+      return block.resource.text ?? `[resource: ${block.resource.uri}]`;
+    default:
+      return "";
+  }
+}
+
+// The prompt as a chat message. A single user message is used as is; a longer
+// exchange keeps the roles so the model can follow it.
+function promptToText(messages: MCPPromptMessage[]): string {
+  if (messages.length === 1 && messages[0].role === "user") {
+    return blockToText(messages[0].content);
+  }
+  return messages
+    .map(message => `${message.role === "user" ? "User" : "Assistant"}: ${blockToText(message.content)}`)
+    .join("\n\n");
+}
+
+interface PromptBrowserProps {
+  serverId: string;
+  // Changes when the server says its prompts changed
+  listVersion?: number;
+  onUsePrompt?: (text: string) => void;
+}
+
+// The prompts a server offers: fill in a prompt's arguments, preview the messages
+// it expands to and start a chat with them
+export function PromptBrowser({ serverId, listVersion = 0, onUsePrompt }: PromptBrowserProps) {
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<MCPPrompt | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [missing, setMissing] = useState<string[]>([]);
+  const [isExpanding, setIsExpanding] = useState(false);
+  const [expanded, setExpanded] = useState<ExpandedPrompt | null>(null);
+  const [expandError, setExpandError] = useState<string | null>(null);
+
+  const loadPrompts = async () => {
+    setIsLoading(true);
+    setListError(null);
+    try {
+      const response = await fetch('/api/mcp/list-prompts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ serverId }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setPrompts(result.prompts || []);
+      } else {
+        setListError(result.error || "Failed to list prompts");
+      }
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : "Failed to list prompts");
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    setPrompts([]);
+    setSelected(null);
+    loadPrompts();
+  }, [serverId]);
+
+  useEffect(() => {
+    if (listVersion > 0) {
+      loadPrompts();
+    }
+  }, [listVersion]);
+
+  const selectPrompt = (prompt: MCPPrompt) => {
+    setSelected(prompt);
+    setValues({});
+    setMissing([]);
+    setExpanded(null);
+    setExpandError(null);
+  };
+
+  const handleGetPrompt = async () => {
+    if (!selected) {
+      return;
+    }
+    const required = (selected.arguments || []).filter(arg => arg.required && !values[arg.name]?.trim());
+    setMissing(required.map(arg => arg.name));
+    if (required.length > 0) {
+      return;
+    }
+
+    // Arguments left empty are not sent
+    const args = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ""));
+    setIsExpanding(true);
+    setExpandError(null);
+    try {
+      const response = await fetch('/api/mcp/get-prompt', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ serverId, name: selected.name, arguments: args }),
+      });
+      const result = await response.json();
+      if (result.success) {
+        setExpanded({ description: result.description, messages: result.messages || [] });
+      } else {
+        setExpanded(null);
+        setExpandError(result.error || "Failed to get prompt");
+      }
+    } catch (error) {
+      setExpanded(null);
+      setExpandError(error instanceof Error ? error.message : "Failed to get prompt");
+    }
+    setIsExpanding(false);
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-4" data-testid="prompt-browser">
+      <div className="col-span-1 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-700">{prompts.length} prompts</span>
+          <Button onClick={loadPrompts} disabled={isLoading} variant="ghost" size="sm" title="Reload prompts">
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        {listError && <p className="text-sm text-red-600" data-testid="text-prompts-error">{listError}</p>}
+        {!listError && !isLoading && prompts.length === 0 && (
+          <p className="text-sm text-gray-600 dark:text-gray-700">No prompts available for this server.</p>
+        )}
+        {prompts.map(prompt => (
+          <button
+            key={prompt.name}
+            type="button"
+            onClick={() => selectPrompt(prompt)}
+            className={`w-full text-left p-3 border rounded-lg transition-all ${
+              selected?.name === prompt.name
+                ? "border-blue-500 bg-blue-50 dark:bg-blue-50"
+                : "border-gray-200 hover:border-gray-300"
+            }`}
+            data-testid={`prompt-${prompt.name}`}
+          >
+            <div className="flex items-center gap-2">
+              <MessageSquare className="w-4 h-4 text-blue-600 shrink-0" />
+              <span className="font-medium text-black dark:text-gray-800 truncate">{prompt.name}</span>
+            </div>
+            {prompt.description && (
+              <p className="text-xs text-gray-600 dark:text-gray-700 mt-1">{prompt.description}</p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="col-span-2 space-y-4">
+        {!selected ? (
+          <p className="text-sm text-gray-600 dark:text-gray-700 py-8 text-center">
+            Choose a prompt to fill in its arguments.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {(selected.arguments || []).length === 0 && (
+                <p className="text-sm text-gray-500">This prompt takes no arguments.</p>
+              )}
+              {(selected.arguments || []).map(arg => (
+                <div key={arg.name}>
+                  <Label htmlFor={`prompt-arg-${arg.name}`} className="text-sm font-medium text-gray-700">
+                    {arg.name}
+                    {arg.required && <span className="text-red-500 ml-0.5">*</span>}
+                  </Label>
+                  {arg.description && <p className="text-xs text-gray-500">{arg.description}</p>}
+                  <Input
+                    id={`prompt-arg-${arg.name}`}
+                    value={values[arg.name] ?? ""}
+                    onChange={(e) => setValues({ ...values, [arg.name]: e.target.value })}
+                    className="mt-1"
+                    data-testid={`input-prompt-arg-${arg.name}`}
+                  />
+                  {missing.includes(arg.name) && <p className="text-xs text-red-600 mt-1">Required</p>}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button onClick={handleGetPrompt} disabled={isExpanding} size="sm" data-testid="button-get-prompt">
+                {isExpanding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileDown className="w-4 h-4 mr-2" />}
+                Get prompt
+              </Button>
+              {expanded && onUsePrompt && (
+                <Button
+                  onClick={() => onUsePrompt(promptToText(expanded.messages))}
+                  disabled={expanded.messages.length === 0}
+                  variant="outline"
+                  size="sm"
+                  data-testid="button-use-prompt"
+                >
+                  <Send className="w-4 h-4 mr-2" />
+                  Start conversation
+                </Button>
+              )}
+            </div>
+
+            {expandError && <p className="text-sm text-red-600" data-testid="text-prompt-error">{expandError}</p>}
+
+            {expanded && (
+              <div className="space-y-2" data-testid="prompt-messages">
+                {expanded.description && (
+                  <p className="text-sm text-gray-600 dark:text-gray-700">{expanded.description}</p>
+                )}
+                {expanded.messages.length === 0 && (
+                  <p className="text-sm text-gray-500">The prompt has no messages.</p>
+                )}
+                {expanded.messages.map((message, index) => (
+                  <div
+                    key={index}
+                    className={`rounded-md border p-2 ${
+                      message.role === "user" ? "border-blue-200 bg-blue-50 dark:bg-blue-50" : "border-gray-200 bg-white dark:bg-gray-50"
+                    }`}
+                  >
+                    <p className="text-xs font-medium uppercase text-gray-500 mb-1">{message.role}</p>
+                    <ContentBlockView block={message.content} index={index} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
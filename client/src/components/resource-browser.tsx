@@ -0,0 +1,391 @@
+import { useState, useEffect, useRef } from "react";
+import { FileText, FileCode, Loader2, RefreshCw, Paperclip, BookOpen, Eye, EyeOff } from "lucide-react";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { CHAT_ATTACHMENT_TYPES, type MCPResource, type MCPResourceContents, type MCPResourceTemplate } from "@shared/mcp-types";
+import { ContentBlockView, base64ToBytes, extensionFor, fileNameFromUri } from "@/components/tool-result-view";
+
+interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+type Selection =
+  | { kind: "resource"; resource: MCPResource }
+  | { kind: "template"; template: MCPResourceTemplate };
+
+// A resource's contents as a chat attachment, or null if the chat cannot take its type.
+// The chat accepts text only as text/plain, so any text (Markdown, CSV, JSON, ...) is
+// sent as plain text.
+function contentsToFile(contents: MCPResourceContents): File | null {
+  if (contents.blob !== undefined) {
+    const mimeType = contents.mimeType || "application/octet-stream";
+    const type = mimeType.startsWith("text/") ? "text/plain" : mimeType;
+    if (!CHAT_ATTACHMENT_TYPES.includes(type)) {
+      return null;
+    }
+    return new File([base64ToBytes(contents.blob)], fileNameFromUri(contents.uri, `resource${extensionFor(mimeType)}`), { type });
+  }
+  return new File([contents.text ?? ""], fileNameFromUri(contents.uri, "resource.txt"), { type: "text/plain" });
+}
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  return response.json();
+}
+
+interface ResourceBrowserProps {
+  serverId: string;
+  // Changes when the server says its resource list changed
+  listVersion?: number;
+  // The last resource the server said was updated
+  updatedResource?: { uri: string; at: number } | null;
+  // Whether the server accepts resource subscriptions
+  canSubscribe?: boolean;
+  onAttach?: (files: File[]) => void;
+}
+
+// The resources a server exposes, and templates for the ones addressed by parameters:
+// read one, preview its contents, watch it for changes and attach it to the next chat message
+export function ResourceBrowser({
+  serverId,
+  listVersion = 0,
+  updatedResource,
+  canSubscribe = false,
+  onAttach,
+}: ResourceBrowserProps) {
+  const [resources, setResources] = useState<Page<MCPResource>>({ items: [] });
+  const [templates, setTemplates] = useState<Page<MCPResourceTemplate>>({ items: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Selection | null>(null);
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [isReading, setIsReading] = useState(false);
+  const [contents, setContents] = useState<MCPResourceContents[] | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  // The resource being shown, and the ones subscribed to from this view
+  const [shownUri, setShownUri] = useState<string | null>(null);
+  const [watched, setWatched] = useState<string[]>([]);
+  const watchedRef = useRef(watched);
+  watchedRef.current = watched;
+  const { toast } = useToast();
+
+  // Loads the first page of both lists, or the next page of one of them
+  const loadPage = async (list: "resources" | "templates" | "all", cursor?: string) => {
+    setIsLoading(true);
+    setListError(null);
+    try {
+      if (list !== "templates") {
+        const result = await postJson('/api/mcp/list-resources', { serverId, cursor });
+        if (!result.success) {
+          throw new Error(result.error || "Failed to list resources");
+        }
+        setResources(prev => ({
+          items: [...(cursor ? prev.items : []), ...(result.resources || [])],
+          nextCursor: result.nextCursor,
+        }));
+      }
+      if (list !== "resources") {
+        const result = await postJson('/api/mcp/list-resource-templates', { serverId, cursor });
+        if (!result.success) {
+          throw new Error(result.error || "Failed to list resource templates");
+        }
+        setTemplates(prev => ({
+          items: [...(cursor ? prev.items : []), ...(result.resourceTemplates || [])],
+          nextCursor: result.nextCursor,
+        }));
+      }
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : "Failed to list resources");
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    setResources({ items: [] });
+    setTemplates({ items: [] });
+    setSelected(null);
+    loadPage("all");
+  }, [serverId]);
+
+  useEffect(() => {
+    if (listVersion > 0) {
+      loadPage("all");
+    }
+  }, [listVersion]);
+
+  // Subscriptions made here end when the tab is closed or another server is shown
+  useEffect(() => {
+    return () => {
+      for (const uri of watchedRef.current) {
+        postJson('/api/mcp/subscribe-resource', { serverId, uri, subscribed: false }).catch(() => {});
+      }
+      setWatched([]);
+    };
+  }, [serverId]);
+
+  const readResource = async (uri: string) => {
+    setShownUri(uri);
+    setIsReading(true);
+    setReadError(null);
+    try {
+      const result = await postJson('/api/mcp/read-resource', { serverId, uri });
+      if (result.success) {
+        setContents(result.contents || []);
+      } else {
+        setContents(null);
+        setReadError(result.error || "Failed to read resource");
+      }
+    } catch (error) {
+      setContents(null);
+      setReadError(error instanceof Error ? error.message : "Failed to read resource");
+    }
+    setIsReading(false);
+  };
+
+  // Show the new contents when the resource on screen changes
+  useEffect(() => {
+    if (updatedResource && updatedResource.uri === shownUri) {
+      readResource(updatedResource.uri);
+    }
+  }, [updatedResource]);
+
+  const toggleWatch = async (uri: string) => {
+    const subscribed = !watched.includes(uri);
+    try {
+      const result = await postJson('/api/mcp/subscribe-resource', { serverId, uri, subscribed });
+      if (!result.success) {
+        throw new Error(result.error || "Subscription failed");
+      }
+      setWatched(prev => subscribed ? [...prev, uri] : prev.filter(item => item !== uri));
+    } catch (error) {
+      toast({
+        title: subscribed ? "Cannot watch resource" : "Cannot stop watching resource",
+        description: error instanceof Error ? error.message : "Subscription failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const select = (selection: Selection) => {
+    setSelected(selection);
+    setShownUri(null);
+    setVariables({});
+    setContents(null);
+    setReadError(null);
+    if (selection.kind === "resource") {
+      readResource(selection.resource.uri);
+    }
+  };
+
+  // The selected template and the URI its current variables expand to
+  let template: UriTemplate | null = null;
+  let expandedUri = "";
+  let templateError: string | null = null;
+  if (selected?.kind === "template") {
+    try {
+      template = new UriTemplate(selected.template.uriTemplate);
+      expandedUri = template.expand(variables);
+    } catch (error) {
+      templateError = error instanceof Error ? error.message : "Invalid URI template";
+    }
+  }
+
+  const handleAttach = () => {
+    if (!contents || !onAttach) {
+      return;
+    }
+    const files = contents.map(contentsToFile);
+    const unsupported = contents.filter((_, index) => !files[index]);
+    if (unsupported.length > 0) {
+      toast({
+        title: "Cannot attach resource",
+        description: `The chat does not accept ${Array.from(new Set(unsupported.map(item => item.mimeType || "application/octet-stream"))).join(", ")} files`,
+        variant: "destructive",
+      });
+      return;
+    }
+    onAttach(files as File[]);
+    toast({ title: "Attached to the next message", description: contents.map(item => item.uri).join(", ") });
+  };
+
+  const itemClass = (isSelected: boolean) => `w-full text-left p-3 border rounded-lg transition-all ${
+    isSelected ? "border-blue-500 bg-blue-50 dark:bg-blue-50" : "border-gray-200 hover:border-gray-300"
+  }`;
+
+  return (
+    <div className="grid grid-cols-3 gap-4" data-testid="resource-browser">
+      <div className="col-span-1 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-700">
+            {resources.items.length} resources, {templates.items.length} templates
+          </span>
+          <Button onClick={() => loadPage("all")} disabled={isLoading} variant="ghost" size="sm" title="Reload resources">
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        {listError && <p className="text-sm text-red-600" data-testid="text-resources-error">{listError}</p>}
+        {!listError && !isLoading && resources.items.length === 0 && templates.items.length === 0 && (
+          <p className="text-sm text-gray-600 dark:text-gray-700">No resources available for this server.</p>
+        )}
+
+        {resources.items.map(resource => (
+          <button
+            key={resource.uri}
+            type="button"
+            onClick={() => select({ kind: "resource", resource })}
+            className={itemClass(selected?.kind === "resource" && selected.resource.uri === resource.uri)}
+            data-testid={`resource-${resource.uri}`}
+          >
+            <div className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-blue-600 shrink-0" />
+              <span className="font-medium text-black dark:text-gray-800 truncate">{resource.name || resource.uri}</span>
+            </div>
+            <p className="text-xs text-gray-500 font-mono truncate mt-1" title={resource.uri}>{resource.uri}</p>
+            {resource.description && (
+              <p className="text-xs text-gray-600 dark:text-gray-700 mt-1">{resource.description}</p>
+            )}
+          </button>
+        ))}
+        {resources.nextCursor && (
+          <Button
+            onClick={() => loadPage("resources", resources.nextCursor)}
+            disabled={isLoading}
+            variant="outline"
+            size="sm"
+            className="w-full"
+            data-testid="button-more-resources"
+          >
+            Load more resources
+          </Button>
+        )}
+
+        {templates.items.length > 0 && (
+          <p className="text-xs font-medium uppercase text-gray-500 pt-2">Templates</p>
+        )}
+        {templates.items.map(item => (
+          <button
+            key={item.uriTemplate}
+            type="button"
+            onClick={() => select({ kind: "template", template: item })}
+            className={itemClass(selected?.kind === "template" && selected.template.uriTemplate === item.uriTemplate)}
+            data-testid={`resource-template-${item.uriTemplate}`}
+          >
+            <div className="flex items-center gap-2">
+              <FileCode className="w-4 h-4 text-purple-600 shrink-0" />
+              <span className="font-medium text-black dark:text-gray-800 truncate">{item.name || item.uriTemplate}</span>
+            </div>
+            <p className="text-xs text-gray-500 font-mono truncate mt-1" title={item.uriTemplate}>{item.uriTemplate}</p>
+            {item.description && (
+              <p className="text-xs text-gray-600 dark:text-gray-700 mt-1">{item.description}</p>
+            )}
+          </button>
+        ))}
+        {templates.nextCursor && (
+          <Button
+            onClick={() => loadPage("templates", templates.nextCursor)}
+            disabled={isLoading}
+            variant="outline"
+            size="sm"
+            className="w-full"
+            data-testid="button-more-resource-templates"
+          >
+            Load more templates
+          </Button>
+        )}
+      </div>
+
+      <div className="col-span-2 space-y-4">
+        {!selected && (
+          <p className="text-sm text-gray-600 dark:text-gray-700 py-8 text-center">
+            Choose a resource to preview it.
+          </p>
+        )}
+
+        {selected?.kind === "template" && (
+          <div className="space-y-3">
+            {templateError && <p className="text-sm text-red-600">{templateError}</p>}
+            {template?.variableNames.map(name => (
+              <div key={name}>
+                <Label htmlFor={`template-var-${name}`} className="text-sm font-medium text-gray-700">{name}</Label>
+                <Input
+                  id={`template-var-${name}`}
+                  value={variables[name] ?? ""}
+                  onChange={(e) => setVariables({ ...variables, [name]: e.target.value })}
+                  className="mt-1"
+                  data-testid={`input-template-var-${name}`}
+                />
+              </div>
+            ))}
+            {template && !templateError && (
+              <div className="flex items-center gap-2">
+                <Button onClick={() => readResource(expandedUri)} disabled={isReading} size="sm" data-testid="button-read-template">
+                  {isReading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <BookOpen className="w-4 h-4 mr-2" />}
+                  Read
+                </Button>
+                <span className="text-xs text-gray-500 font-mono break-all">{expandedUri}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selected && isReading && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Reading…
+          </div>
+        )}
+
+        {readError && <p className="text-sm text-red-600" data-testid="text-resource-error">{readError}</p>}
+
+        {contents && (
+          <div className="space-y-2" data-testid="resource-contents">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600 dark:text-gray-700">
+                {contents.length === 1 ? "1 item" : `${contents.length} items`}
+              </span>
+              <div className="flex items-center gap-2">
+                {canSubscribe && shownUri && (
+                  <Button
+                    onClick={() => toggleWatch(shownUri)}
+                    variant={watched.includes(shownUri) ? "secondary" : "outline"}
+                    size="sm"
+                    title="Reload the preview whenever the server reports a change"
+                    data-testid="button-watch-resource"
+                  >
+                    {watched.includes(shownUri) ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+                    {watched.includes(shownUri) ? "Stop watching" : "Watch"}
+                  </Button>
+                )}
+                {onAttach && (
+                  <Button
+                    onClick={handleAttach}
+                    disabled={contents.length === 0}
+                    variant="outline"
+                    size="sm"
+                    data-testid="button-attach-resource"
+                  >
+                    <Paperclip className="w-4 h-4 mr-2" />
+                    Attach to chat
+                  </Button>
+                )}
+              </div>
+            </div>
+            {contents.map((item, index) => (
+              <ContentBlockView key={index} block={{ type: "resource", resource: item }} index={index} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,8 +10,10 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { saveServiceConfig, loadServiceConfig, saveConfiguredServer } from "@/utils/mcp-storage";
-import { MCPHttpConfig } from "@shared/mcp-types";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient } from "@/lib/queryClient";
+import { MCPServerConfig, MCPConfiguredServer, MCPAuthScheme, DEFAULT_API_KEY_HEADER, isStdioConfig } from "@shared/mcp-types";
 
 interface ConnectionStatus {
   isTesting: boolean;
@@ -21,9 +23,41 @@ interface ConnectionStatus {
 }
 
 interface ServerConfigurationProps {
-  onServerAdded?: (server: { id: string; name: string; config: MCPHttpConfig; tools: unknown[] }) => void;
+  onServerAdded?: (server: MCPConfiguredServer) => void;
 }
 
+type Transport = "http" | "stdio";
+
+// One command argument per line
+function parseArgs(text: string): string[] {
+  return text.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+// One "name<separator>value" pair per line, e.g. KEY=value or Header: value;
+// lines without the separator are ignored
+function parsePairs(text: string, separator: string): Record<string, string> | undefined {
+  const entries = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.includes(separator))
+    .map((line) => [
+      line.slice(0, line.indexOf(separator)).trim(),
+      line.slice(line.indexOf(separator) + separator.length).trim(),
+    ]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+const SECRET_LABELS: Record<MCPAuthScheme, string> = {
+  none: "",
+  bearer: "Bearer Token",
+  basic: "Password",
+  "api-key": "API Key",
+  oauth: "",
+};
+
+// Schemes that send a secret entered here; OAuth servers are signed in to from their tab
+const usesSecret = (scheme: MCPAuthScheme) => scheme !== "none" && scheme !== "oauth";
+
 export function ServerConfiguration({ onServerAdded }: ServerConfigurationProps) {
   const [isClient, setIsClient] = useState(false);
 
@@ -34,8 +68,17 @@ export function ServerConfiguration({ onServerAdded }: ServerConfigurationProps)
 
   // Form fields
   const [serverName, setServerName] = useState("");
+  const [transport, setTransport] = useState<Transport>("http");
   const [url, setUrl] = useState("");
+  const [authScheme, setAuthScheme] = useState<MCPAuthScheme>("bearer");
   const [bearerToken, setBearerToken] = useState("");
+  const [username, setUsername] = useState("");
+  const [apiKeyHeader, setApiKeyHeader] = useState("");
+  const [headers, setHeaders] = useState("");
+  const [command, setCommand] = useState("");
+  const [args, setArgs] = useState("");
+  const [env, setEnv] = useState("");
+  const [cwd, setCwd] = useState("");
 
   // Handle client-side mounting
   useEffect(() => {
@@ -61,10 +104,25 @@ export function ServerConfiguration({ onServerAdded }: ServerConfigurationProps)
     setConnectionStatus({ isTesting: true });
 
     // Build current config
-    const config: MCPHttpConfig = {
-      url: url || "",
-      ...(bearerToken && { bearerToken }),
-    };
+    const stdioArgs = parseArgs(args);
+    const stdioEnv = parsePairs(env, "=");
+    const customHeaders = parsePairs(headers, ":");
+    const config: MCPServerConfig = transport === "stdio"
+      ? {
+          transport: "stdio",
+          command: command.trim(),
+          ...(stdioArgs.length > 0 && { args: stdioArgs }),
+          ...(stdioEnv && { env: stdioEnv }),
+          ...(cwd.trim() && { cwd: cwd.trim() }),
+        }
+      : {
+          url: url || "",
+          authScheme,
+          ...(usesSecret(authScheme) && bearerToken && { bearerToken }),
+          ...(authScheme === "basic" && { username }),
+          ...(authScheme === "api-key" && apiKeyHeader.trim() && { apiKeyHeader: apiKeyHeader.trim() }),
+          ...(customHeaders && { headers: customHeaders }),
+        };
 
     try {
       // Test the connection via API
@@ -77,23 +135,36 @@ export function ServerConfiguration({ onServerAdded }: ServerConfigurationProps)
       });
 
       const result = await response.json();
+      // A server that asks for an OAuth sign-in is saved without tools; the user signs in from its tab
+      const needsSignIn = !result.success && result.authRequired && (authScheme === "oauth" || authScheme === "none");
 
-      if (result.success) {
-        const newServer = {
-          id: serverName.toLowerCase().replace(/\s+/g, '-') || 'server-' + Date.now(),
-          name: serverName || 'MCP Server',
-          config,
-          tools: result.tools || []
-        };
-
-        // Save configuration to localStorage
-        saveConfiguredServer(newServer);
-
-        setConnectionStatus({
-          isTesting: false,
-          lastTestSuccess: true,
-          lastTestTools: result.tools,
+      if (result.success || needsSignIn) {
+        const savedConfig: MCPServerConfig = needsSignIn && !isStdioConfig(config)
+          ? { ...config, authScheme: "oauth" }
+          : config;
+        // Register the server so the chat agent and other browsers see it too
+        const saveResponse = await fetch('/api/mcp/servers', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            name: serverName || 'MCP Server',
+            config: result.httpTransport ? { ...savedConfig, httpTransport: result.httpTransport } : savedConfig,
+            ...(result.success && { tools: result.tools || [] }),
+          }),
         });
+        const saved = await saveResponse.json();
+        if (!saveResponse.ok) {
+          throw new Error(saved.message || "Failed to save server");
+        }
+        const newServer = saved as MCPConfiguredServer;
+        queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+
+        setConnectionStatus(result.success
+          ? { isTesting: false, lastTestSuccess: true, lastTestTools: result.tools }
+          : { isTesting: false });
 
         // Notify parent component
         if (onServerAdded) {
@@ -104,6 +175,13 @@ export function ServerConfiguration({ onServerAdded }: ServerConfigurationProps)
         setServerName("");
         setUrl("");
         setBearerToken("");
+        setUsername("");
+        setApiKeyHeader("");
+        setHeaders("");
+        setCommand("");
+        setArgs("");
+        setEnv("");
+        setCwd("");
       } else {
         setConnectionStatus({
           isTesting: false,
@@ -145,7 +223,7 @@ export function ServerConfiguration({ onServerAdded }: ServerConfigurationProps)
           {/* Test Connection Button */}
           <Button
             onClick={handleConnect}
-            disabled={connectionStatus.isTesting || !url || !serverName}
+            disabled={connectionStatus.isTesting || !serverName || (transport === "stdio" ? !command.trim() : !url)}
             variant={connectionStatus.lastTestSuccess ? "secondary" : "default"}
             size="sm"
             className="px-4 py-2"
@@ -197,40 +275,197 @@ export function ServerConfiguration({ onServerAdded }: ServerConfigurationProps)
           />
         </div>
 
-        {/* URL and Token Row */}
-        <div className="grid grid-cols-2 gap-4">
-          {/* Server URL */}
-          <div>
-            <Label htmlFor="mcp-url" className="text-sm font-medium text-gray-700 mb-1 block">
-              Server URL
-            </Label>
-            <Input
-              id="mcp-url"
-              type="url"
-              value={url}
-              onChange={(e) => setUrl(e.target.value)}
-              placeholder="https://api.github.com/mcp"
-              className="w-full"
-              data-testid="input-mcp-url"
-            />
-          </div>
-
-          {/* Bearer Token */}
-          <div>
-            <Label htmlFor="mcp-token" className="text-sm font-medium text-gray-700 mb-1 block">
-              Bearer Token
-            </Label>
-            <Input
-              id="mcp-token"
-              type="password"
-              value={bearerToken}
-              onChange={(e) => setBearerToken(e.target.value)}
-              placeholder="••••••••••••••••••••••••••••••••"
-              className="w-full"
-              data-testid="input-mcp-token"
-            />
-          </div>
+        {/* Transport */}
+        <div>
+          <Label htmlFor="mcp-transport" className="text-sm font-medium text-gray-700 mb-1 block">
+            Transport
+          </Label>
+          <Select value={transport} onValueChange={(value) => setTransport(value as Transport)}>
+            <SelectTrigger id="mcp-transport" className="w-full" data-testid="select-mcp-transport">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="http">HTTP (remote server)</SelectItem>
+              <SelectItem value="stdio">stdio (local command)</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
+
+        {/* URL and Authentication, or Command, Arguments and Environment */}
+        {transport === "http" ? (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              {/* Server URL */}
+              <div>
+                <Label htmlFor="mcp-url" className="text-sm font-medium text-gray-700 mb-1 block">
+                  Server URL
+                </Label>
+                <Input
+                  id="mcp-url"
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://api.github.com/mcp"
+                  className="w-full"
+                  data-testid="input-mcp-url"
+                />
+              </div>
+
+              {/* Authentication */}
+              <div>
+                <Label htmlFor="mcp-auth-scheme" className="text-sm font-medium text-gray-700 mb-1 block">
+                  Authentication
+                </Label>
+                <Select value={authScheme} onValueChange={(value) => setAuthScheme(value as MCPAuthScheme)}>
+                  <SelectTrigger id="mcp-auth-scheme" className="w-full" data-testid="select-mcp-auth-scheme">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="bearer">Bearer token</SelectItem>
+                    <SelectItem value="basic">Basic auth</SelectItem>
+                    <SelectItem value="api-key">API key header</SelectItem>
+                    <SelectItem value="oauth">OAuth (sign in)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {usesSecret(authScheme) && (
+              <div className="grid grid-cols-2 gap-4">
+                {authScheme === "basic" && (
+                  <div>
+                    <Label htmlFor="mcp-username" className="text-sm font-medium text-gray-700 mb-1 block">
+                      Username
+                    </Label>
+                    <Input
+                      id="mcp-username"
+                      type="text"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value)}
+                      className="w-full"
+                      data-testid="input-mcp-username"
+                    />
+                  </div>
+                )}
+                {authScheme === "api-key" && (
+                  <div>
+                    <Label htmlFor="mcp-api-key-header" className="text-sm font-medium text-gray-700 mb-1 block">
+                      Header Name
+                    </Label>
+                    <Input
+                      id="mcp-api-key-header"
+                      type="text"
+                      value={apiKeyHeader}
+                      onChange={(e) => setApiKeyHeader(e.target.value)}
+                      placeholder={DEFAULT_API_KEY_HEADER}
+                      className="w-full font-mono"
+                      data-testid="input-mcp-api-key-header"
+                    />
+                  </div>
+                )}
+
+                {/* Token, password or API key */}
+                <div>
+                  <Label htmlFor="mcp-token" className="text-sm font-medium text-gray-700 mb-1 block">
+                    {SECRET_LABELS[authScheme]}
+                  </Label>
+                  <Input
+                    id="mcp-token"
+                    type="password"
+                    value={bearerToken}
+                    onChange={(e) => setBearerToken(e.target.value)}
+                    placeholder="••••••••••••••••••••••••••••••••"
+                    className="w-full"
+                    data-testid="input-mcp-token"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Custom Headers */}
+            <div>
+              <Label htmlFor="mcp-headers" className="text-sm font-medium text-gray-700 mb-1 block">
+                Custom Headers (Name: value per line)
+              </Label>
+              <Textarea
+                id="mcp-headers"
+                value={headers}
+                onChange={(e) => setHeaders(e.target.value)}
+                placeholder="X-Tenant-Id: acme"
+                rows={2}
+                className="w-full font-mono text-sm"
+                data-testid="input-mcp-headers"
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            {/* Command and Working Directory Row */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="mcp-command" className="text-sm font-medium text-gray-700 mb-1 block">
+                  Command
+                </Label>
+                <Input
+                  id="mcp-command"
+                  type="text"
+                  value={command}
+                  onChange={(e) => setCommand(e.target.value)}
+                  placeholder="npx"
+                  className="w-full font-mono"
+                  data-testid="input-mcp-command"
+                />
+              </div>
+              <div>
+                <Label htmlFor="mcp-cwd" className="text-sm font-medium text-gray-700 mb-1 block">
+                  Working Directory
+                </Label>
+                <Input
+                  id="mcp-cwd"
+                  type="text"
+                  value={cwd}
+                  onChange={(e) => setCwd(e.target.value)}
+                  placeholder="Server's working directory"
+                  className="w-full font-mono"
+                  data-testid="input-mcp-cwd"
+                />
+              </div>
+            </div>
+
+            {/* Arguments and Environment Row */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="mcp-args" className="text-sm font-medium text-gray-700 mb-1 block">
+                  Arguments (one per line)
+                </Label>
+                <Textarea
+                  id="mcp-args"
+                  value={args}
+                  onChange={(e) => setArgs(e.target.value)}
+                  placeholder={"-y\n@modelcontextprotocol/server-filesystem\n/path/to/files"}
+                  rows={3}
+                  className="w-full font-mono text-sm"
+                  data-testid="input-mcp-args"
+                />
+              </div>
+              <div>
+                <Label htmlFor="mcp-env" className="text-sm font-medium text-gray-700 mb-1 block">
+                  Environment (KEY=value per line)
+                </Label>
+                <Textarea
+                  id="mcp-env"
+                  value={env}
+                  onChange={(e) => setEnv(e.target.value)}
+                  placeholder="GITHUB_TOKEN=..."
+                  rows={3}
+                  className="w-full font-mono text-sm"
+                  data-testid="input-mcp-env"
+                />
+              </div>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
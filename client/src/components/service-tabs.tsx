@@ -9,7 +9,9 @@ import {
   Settings,
   Globe,
   Search,
-  Code
+  Code,
+  ShieldCheck,
+  ScrollText
 } from "lucide-react";
 import type { MCPService } from "@/types/mcp";
 
@@ -27,6 +29,8 @@ const serviceIcons = {
   database: Database,
   cloud: Cloud,
   configuration: Settings,
+  policies: ShieldCheck,
+  audit: ScrollText,
   cairo: Code,
   javadocs: Book,
   'find-a-domain': Globe,
@@ -41,6 +45,8 @@ const serviceColors = {
   database: "text-green-500",
   cloud: "text-blue-400",
   configuration: "text-orange-500",
+  policies: "text-blue-600",
+  audit: "text-gray-600",
   cairo: "text-orange-600",
   javadocs: "text-red-500",
   'find-a-domain': "text-green-600",
@@ -48,10 +54,12 @@ const serviceColors = {
 };
 
 export function ServiceTabs({ services, selectedService, onSelectService }: ServiceTabsProps) {
-  // Add Configuration tab to the services
+  // Add Configuration, Policies and Audit tabs to the services
   const allTabs = [
     ...services,
-    { id: "configuration", name: "Configuration", description: "Configure MCP Server Connections" }
+    { id: "configuration", name: "Configuration", description: "Configure MCP Server Connections" },
+    { id: "policies", name: "Policies", description: "Rules for tool calls" },
+    { id: "audit", name: "Audit", description: "Record of tool calls" }
   ];
 
   return (
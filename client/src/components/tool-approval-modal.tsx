@@ -0,0 +1,98 @@
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+import type { MCPApprovalScope, MCPToolApprovalRequest } from "@shared/mcp-types";
+
+interface ToolApprovalModalProps {
+  request: MCPToolApprovalRequest;
+  onRespond: (approved: boolean, scope?: MCPApprovalScope) => void;
+}
+
+// Shown while the agent waits for approval of a tool call, with the exact arguments it
+// wants to send
+export function ToolApprovalModal({ request, onRespond }: ToolApprovalModalProps) {
+  const { toolCall, riskLevel, riskReason, policyRuleId } = request;
+  const isHigh = riskLevel === "high";
+
+  return (
+    <div className="fixed inset-0 modal-backdrop flex items-center justify-center z-50" data-testid="modal-tool-approval">
+      <div className="permission-modal-glass border border-border rounded-lg p-6 max-w-lg w-full mx-4 shadow-2xl animate-in fade-in-0 zoom-in-95 duration-200">
+        <div className="flex items-center gap-3 mb-4">
+          <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${isHigh ? "bg-destructive/10" : "bg-yellow-500/10"}`}>
+            <ShieldAlert className={`h-5 w-5 ${isHigh ? "text-destructive" : "text-yellow-600"}`} />
+          </div>
+          <div>
+            <h3 className="font-semibold" data-testid="text-tool-approval-title">
+              Allow <span className="font-mono">{toolCall.toolName}</span>?
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              The AI wants to call this tool on {toolCall.serverName || toolCall.serverId}
+            </p>
+          </div>
+        </div>
+
+        <div className="bg-muted/80 backdrop-blur-sm rounded-lg p-3 mb-4 border space-y-2">
+          <p className="text-sm">
+            <span className={`font-medium capitalize ${isHigh ? "text-destructive" : "text-yellow-700"}`}>{riskLevel} risk</span>
+            {riskReason && <span className="text-muted-foreground">: {riskReason}</span>}
+          </p>
+          {policyRuleId && (
+            <p className="text-sm" data-testid="text-tool-approval-policy">
+              Required by policy rule <span className="font-mono">{policyRuleId}</span>
+              {toolCall.policy?.reason && <span className="text-muted-foreground">: {toolCall.policy.reason}</span>}
+            </p>
+          )}
+          <div>
+            <p className="text-xs text-muted-foreground mb-1">Arguments</p>
+            <pre
+              className="bg-white dark:bg-gray-50 border rounded p-2 overflow-auto max-h-64 whitespace-pre-wrap break-all font-mono text-xs"
+              data-testid="text-tool-approval-arguments"
+            >
+              {JSON.stringify(toolCall.arguments, null, 2)}
+            </pre>
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            className="flex-1 hover:bg-destructive/10 hover:text-destructive hover:border-destructive/50"
+            onClick={() => onRespond(false)}
+            data-testid="button-deny-tool-call"
+          >
+            Deny
+          </Button>
+          <Button
+            className="flex-1 bg-primary hover:bg-primary/90"
+            onClick={() => onRespond(true)}
+            data-testid="button-allow-tool-call"
+          >
+            Allow once
+          </Button>
+        </div>
+        {/* A policy rule that requires asking cannot be switched off from here */}
+        {!policyRuleId && (
+          <div className="flex gap-3 mt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => onRespond(true, "conversation")}
+              data-testid="button-allow-tool-conversation"
+            >
+              Always allow in this conversation
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="flex-1 text-xs"
+              onClick={() => onRespond(true, "server")}
+              data-testid="button-allow-tool-server"
+            >
+              Always allow for this server
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
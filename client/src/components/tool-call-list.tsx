@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Wrench, ChevronDown, ChevronRight, CheckCircle2, XCircle, Loader2, Ban } from "lucide-react";
+import type { MCPAgentToolCall } from "@shared/mcp-types";
+import { ToolResultView } from "@/components/tool-result-view";
+
+interface ToolCallListProps {
+  toolCalls: MCPAgentToolCall[];
+}
+
+export function ToolCallList({ toolCalls }: ToolCallListProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="mb-3 space-y-2" data-testid="tool-call-list">
+      {toolCalls.map((call) => {
+        const isOpen = expanded.has(call.id);
+        const failed = Boolean(call.error) || call.result?.isError;
+        const running = !call.result && !call.error;
+        const awaitingApproval = call.approval?.status === "pending";
+
+        return (
+          <div
+            key={call.id}
+            className="border rounded-md bg-gray-50 dark:bg-gray-100 border-gray-200 dark:border-gray-300 text-xs"
+            data-testid={`tool-call-${call.toolName}`}
+          >
+            <button
+              type="button"
+              onClick={() => toggleExpanded(call.id)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left"
+            >
+              {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              <Wrench className="h-3 w-3 text-blue-600" />
+              <span className="font-mono font-medium text-black dark:text-gray-800 truncate">
+                {call.toolName}
+              </span>
+              {call.serverName && (
+                <span className="text-gray-500 dark:text-gray-600 truncate">({call.serverName})</span>
+              )}
+              <span className="ml-auto flex items-center gap-1 text-gray-500 dark:text-gray-600">
+                {awaitingApproval ? (
+                  "waiting for approval"
+                ) : running ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  `${call.durationMs}ms`
+                )}
+                {running ? null : call.approval?.status === "denied" ? (
+                  <Ban className="h-3 w-3 text-red-500" />
+                ) : failed ? (
+                  <XCircle className="h-3 w-3 text-red-500" />
+                ) : (
+                  <CheckCircle2 className="h-3 w-3 text-green-500" />
+                )}
+              </span>
+            </button>
+
+            {isOpen && (
+              <div className="px-3 pb-3 space-y-2">
+                <div>
+                  <p className="text-gray-600 dark:text-gray-700 mb-1">Arguments</p>
+                  <pre className="bg-white dark:bg-gray-50 border rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+                    {JSON.stringify(call.arguments, null, 2)}
+                  </pre>
+                </div>
+                {call.policy && (
+                  <p className="text-gray-600 dark:text-gray-700" data-testid={`text-tool-call-policy-${call.toolName}`}>
+                    Policy: <span className="font-medium capitalize">{call.policy.effect}</span>
+                    {call.policy.ruleId && <> by rule <span className="font-mono">{call.policy.ruleId}</span></>}
+                    {call.approval && call.approval.status !== "pending" && (
+                      <>; {call.approval.status === "approved"
+                        ? `approved${call.approval.scope && call.approval.scope !== "once" ? ` (always, for this ${call.approval.scope})` : ""}`
+                        : "not approved"}</>
+                    )}
+                  </p>
+                )}
+                <div>
+                  <p className="text-gray-600 dark:text-gray-700 mb-1">{call.error ? "Error" : "Result"}</p>
+                  <ToolResultView result={call.result} error={call.error} name={call.toolName} />
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
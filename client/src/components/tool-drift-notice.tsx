@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { AlertTriangle, X, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { MCPToolChange, MCPToolDrift } from "@shared/mcp-types";
+
+function SchemaColumns({ change }: { change: MCPToolChange }) {
+  return (
+    <div className="grid grid-cols-2 gap-2 mt-1">
+      {(["before", "after"] as const).map(side => (
+        <div key={side}>
+          <p className="text-xs text-gray-500 capitalize">{side}</p>
+          <pre className="bg-white dark:bg-gray-50 border rounded p-2 overflow-auto max-h-48 whitespace-pre-wrap break-all font-mono text-xs">
+            {JSON.stringify(change[side].inputSchema ?? null, null, 2)}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ChangedTool({ change, revoked }: { change: MCPToolChange; revoked: boolean }) {
+  const [open, setOpen] = useState(false);
+  const what = [change.descriptionChanged && "description", change.schemaChanged && "input schema"].filter(Boolean).join(" and ");
+
+  return (
+    <li className="text-sm">
+      <button type="button" onClick={() => setOpen(!open)} className="flex items-center gap-1 text-left">
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <span className="font-mono font-medium">{change.name}</span>
+        <span className="text-gray-600">: {what} changed</span>
+        {revoked && <span className="text-amber-700 ml-1">(approval revoked)</span>}
+      </button>
+      {open && (
+        <div className="ml-4 mt-1 space-y-2">
+          {change.descriptionChanged && (
+            <div className="text-xs space-y-1">
+              <p><span className="text-gray-500">Before: </span><span className="line-through">{change.before.description || "(none)"}</span></p>
+              <p><span className="text-gray-500">After: </span>{change.after.description || "(none)"}</p>
+            </div>
+          )}
+          {change.schemaChanged && <SchemaColumns change={change} />}
+        </div>
+      )}
+    </li>
+  );
+}
+
+interface ToolDriftNoticeProps {
+  drift: MCPToolDrift;
+  // Tools that were selected before the change, and are no longer
+  revokedTools: string[];
+  // Store the server's new tool definitions in place of the reviewed ones
+  onAccept: () => void;
+  onDismiss: () => void;
+}
+
+// What changed in a server's tool list since it was last stored
+export function ToolDriftNotice({ drift, revokedTools, onAccept, onDismiss }: ToolDriftNoticeProps) {
+  return (
+    <div className="mb-6 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-100 p-4" data-testid="tool-drift-notice">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0" />
+          <h3 className="font-semibold text-black dark:text-gray-800">This server's tools changed</h3>
+        </div>
+        <Button onClick={onDismiss} variant="ghost" size="sm" className="h-6 px-2" aria-label="Dismiss">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <p className="text-sm text-amber-800 mt-2">
+        {revokedTools.length > 0 && "Tools whose description or schema changed were deselected. "}
+        Until you accept the changes, the tools stay as you last reviewed them and the AI cannot use the ones that changed.
+      </p>
+
+      <div className="mt-3 space-y-2 text-gray-900 dark:text-gray-800">
+        {drift.changed.length > 0 && (
+          <div>
+            <p className="text-xs font-medium uppercase text-gray-500">Changed</p>
+            <ul className="space-y-1">
+              {drift.changed.map(change => (
+                <ChangedTool key={change.name} change={change} revoked={revokedTools.includes(change.name)} />
+              ))}
+            </ul>
+          </div>
+        )}
+        {drift.added.length > 0 && (
+          <div>
+            <p className="text-xs font-medium uppercase text-gray-500">Added</p>
+            <p className="text-sm font-mono">{drift.added.map(tool => tool.name).join(", ")}</p>
+          </div>
+        )}
+        {drift.removed.length > 0 && (
+          <div>
+            <p className="text-xs font-medium uppercase text-gray-500">Removed</p>
+            <p className="text-sm font-mono line-through">{drift.removed.map(tool => tool.name).join(", ")}</p>
+          </div>
+        )}
+      </div>
+
+      <Button onClick={onAccept} size="sm" className="mt-3" data-testid="button-accept-tool-drift">
+        Accept changes
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { Copy, Download, Braces, FileText, Link2, Music, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { MCPContentBlock, MCPResourceContents, MCPToolResponse } from "@shared/mcp-types";
+import { MarkdownText } from "@/components/markdown-text";
+
+function dataUrl(mimeType: string, base64: string): string {
+  return `data:${mimeType};base64,${base64}`;
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function saveFile(name: string, data: BlobPart, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Revoked once the download has started; revoking straight away cancels it in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// File name for a resource, from the last segment of its URI
+export function fileNameFromUri(uri: string, fallback: string): string {
+  const name = uri.split(/[/\\]/).filter(Boolean).pop();
+  return name && !name.includes(":") ? name : fallback;
+}
+
+// Extension for content saved without a name
+export function extensionFor(mimeType: string): string {
+  const subtype = mimeType.split("/")[1]?.split(/[+;]/)[0];
+  return subtype ? `.${subtype === "jpeg" ? "jpg" : subtype}` : "";
+}
+
+// Text that is a JSON document is shown formatted rather than as markdown
+function parseJson(text: string): unknown {
+  const trimmed = text.trim();
+  if (!/^[[{]/.test(trimmed)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function JsonBlock({ value, className = "" }: { value: unknown; className?: string }) {
+  return (
+    <pre className={`bg-white dark:bg-gray-50 border rounded p-2 overflow-auto max-h-64 whitespace-pre-wrap break-all font-mono text-xs ${className}`}>
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+function TextContent({ text }: { text: string }) {
+  const json = parseJson(text);
+  return json !== undefined ? <JsonBlock value={json} /> : <MarkdownText text={text} className="text-sm" />;
+}
+
+function ResourceContents({ resource }: { resource: MCPResourceContents }) {
+  const mimeType = resource.mimeType || (resource.text !== undefined ? "text/plain" : "application/octet-stream");
+  const fileName = fileNameFromUri(resource.uri, `resource${extensionFor(mimeType)}`);
+
+  let body: JSX.Element | null = null;
+  if (resource.text !== undefined) {
+    body = mimeType === "text/markdown"
+      ? <MarkdownText text={resource.text} className="text-sm" />
+      : mimeType.includes("json")
+        ? <TextContent text={resource.text} />
+        : (
+          <pre className="bg-white dark:bg-gray-50 border rounded p-2 overflow-auto max-h-64 whitespace-pre-wrap break-all font-mono text-xs">
+            {resource.text}
+          </pre>
+        );
+  } else if (resource.blob && mimeType.startsWith("image/")) {
+    body = <img src={dataUrl(mimeType, resource.blob)} alt={fileName} className="max-w-full max-h-80 rounded border" />;
+  } else if (resource.blob) {
+    // Base64 carries 3 bytes in every 4 characters
+    const size = Math.floor(resource.blob.replace(/=+$/, "").length * 3 / 4);
+    body = <p className="text-xs text-gray-500">Binary content, {size.toLocaleString()} bytes</p>;
+  }
+
+  return (
+    <div className="border rounded p-2 space-y-2 bg-gray-50 dark:bg-gray-100">
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <FileText className="w-3 h-3 shrink-0" />
+        <span className="font-mono truncate" title={resource.uri}>{resource.uri}</span>
+        <span className="text-gray-400 shrink-0">{mimeType}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-6 px-2"
+          onClick={() => saveFile(
+            fileName,
+            resource.blob ? base64ToBytes(resource.blob) : resource.text ?? "",
+            mimeType,
+          )}
+          title="Download"
+        >
+          <Download className="w-3 h-3" />
+        </Button>
+      </div>
+      {body}
+    </div>
+  );
+}
+
+// One block of MCP content; also used for prompt messages
+export function ContentBlockView({ block, index }: { block: MCPContentBlock; index: number }) {
+  switch (block.type) {
+    case "text":
+      return <TextContent text={block.text} />;
+    case "image":
+      return (
+        <div className="space-y-1">
+          <img
+            src={dataUrl(block.mimeType, block.data)}
+            alt={`Image ${index + 1}`}
+            className="max-w-full max-h-80 rounded border"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => saveFile(`image-${index + 1}${extensionFor(block.mimeType)}`, base64ToBytes(block.data), block.mimeType)}
+          >
+            <Download className="w-3 h-3 mr-1" />
+            {block.mimeType}
+          </Button>
+        </div>
+      );
+    case "audio":
+      return (
+        <div className="flex items-center gap-2">
+          <Music className="w-4 h-4 text-gray-500 shrink-0" />
+          <audio controls src={dataUrl(block.mimeType, block.data)} className="max-w-full" />
+        </div>
+      );
+    case "resource_link": {
+      const label = block.title || block.name || block.uri;
+      const openable = /^https?:/i.test(block.uri);
+      return (
+        <div className="flex items-start gap-2 border rounded p-2 text-sm">
+          <Link2 className="w-4 h-4 text-blue-600 mt-0.5 shrink-0" />
+          <div className="min-w-0">
+            {openable ? (
+              <a href={block.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline break-all">
+                {label}
+              </a>
+            ) : (
+              <span className="font-medium break-all">{label}</span>
+            )}
+            <p className="text-xs text-gray-500 font-mono break-all">
+              {block.uri}{block.mimeType && ` · ${block.mimeType}`}
+            </p>
+            {block.description && <p className="text-xs text-gray-600">{block.description}</p>}
+          </div>
+        </div>
+      );
+    }
+    case "resource":
+      return <ResourceContents resource={block.resource} />;
+    default:
+      return <JsonBlock value={block} />;
+  }
+}
+
+interface ToolResultViewProps {
+  result?: MCPToolResponse;
+  // Failure before the tool returned anything (e.g. the server was unreachable)
+  error?: string;
+  // Base name for downloaded results
+  name?: string;
+}
+
+// The output of a tool call, rendered by content type, with copy, download and raw JSON views
+export function ToolResultView({ result, error, name = "tool-result" }: ToolResultViewProps) {
+  const [showRaw, setShowRaw] = useState(false);
+  const { toast } = useToast();
+
+  const message = error || (result && !result.success ? result.error || "Tool call failed" : undefined);
+  const failed = Boolean(message) || Boolean(result?.isError);
+  const content = result?.content ?? [];
+  const raw = result ?? { success: false, error };
+
+  const handleCopy = async () => {
+    // The text of the result when it has any, otherwise the whole response
+    const texts = content.filter(block => block.type === "text").map(block => (block as { text: string }).text);
+    try {
+      await navigator.clipboard.writeText(message || (texts.length > 0 ? texts.join("\n\n") : JSON.stringify(raw, null, 2)));
+      toast({ title: "Copied to clipboard" });
+    } catch {
+      toast({ title: "Copy failed", description: "Could not copy to clipboard", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div
+      className={`rounded-md border p-2 space-y-2 ${
+        failed ? "border-red-300 bg-red-50 dark:bg-red-100" : "border-gray-200 bg-white dark:bg-gray-50"
+      }`}
+      data-testid="tool-result-view"
+    >
+      <div className="flex items-center gap-1">
+        {failed && (
+          <span className="flex items-center gap-1 text-xs font-medium text-red-700">
+            <AlertCircle className="w-3 h-3" />
+            {result?.isError ? "Tool reported an error" : "Call failed"}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={handleCopy} title="Copy">
+            <Copy className="w-3 h-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2"
+            onClick={() => saveFile(`${name}.json`, JSON.stringify(raw, null, 2), "application/json")}
+            title="Download as JSON"
+          >
+            <Download className="w-3 h-3" />
+          </Button>
+          <Button
+            variant={showRaw ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2"
+            onClick={() => setShowRaw(!showRaw)}
+            title="Raw JSON"
+            data-testid="button-tool-result-raw"
+          >
+            <Braces className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      {message && <p className="text-sm text-red-700 whitespace-pre-wrap break-words">{message}</p>}
+
+      <div className={failed ? "text-red-800" : "text-gray-900 dark:text-gray-800"}>
+        {content.map((block, index) => (
+          <div key={index} className="mb-2 last:mb-0">
+            <ContentBlockView block={block} index={index} />
+          </div>
+        ))}
+        {!message && content.length === 0 && result?.structuredContent === undefined && (
+          <p className="text-sm text-gray-500">No content returned.</p>
+        )}
+      </div>
+
+      {result?.structuredContent !== undefined && (
+        <div>
+          <p className="text-xs text-gray-600 mb-1">Structured content</p>
+          <JsonBlock value={result.structuredContent} />
+        </div>
+      )}
+
+      {showRaw && <JsonBlock value={raw} className="text-gray-800" />}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { Play, Plus, X, Loader2, CheckCircle2, XCircle, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { MCPPolicyDecision, MCPTool, MCPToolResponse } from "@shared/mcp-types";
+import {
+  buildArguments,
+  childPath,
+  getFieldKind,
+  toDraft,
+  type JSONSchema,
+  type SchemaDraft,
+  type SchemaErrors,
+} from "@/lib/json-schema";
+import { ToolResultView } from "@/components/tool-result-view";
+
+// Tools without an input schema take no arguments
+const EMPTY_SCHEMA: JSONSchema = { type: "object", properties: {} };
+
+// Option value for "nothing chosen" in optional enum selects (Select items cannot be empty)
+const NO_OPTION = "__none__";
+
+interface SchemaFieldProps {
+  name: string;
+  schema: JSONSchema;
+  draft: SchemaDraft;
+  path: string;
+  required: boolean;
+  errors: SchemaErrors;
+  onChange: (draft: SchemaDraft) => void;
+}
+
+function FieldLabel({ name, schema, path, required }: Pick<SchemaFieldProps, "name" | "schema" | "path" | "required">) {
+  return (
+    <div className="mb-1">
+      <Label htmlFor={`tool-arg-${path}`} className="text-sm font-medium text-gray-700">
+        {schema.title || name}
+        {required && <span className="text-red-500 ml-0.5">*</span>}
+        <span className="ml-2 text-xs font-normal text-gray-400">{getFieldKind(schema) === "json" ? "JSON" : getFieldKind(schema)}</span>
+      </Label>
+      {schema.description && (
+        <p className="text-xs text-gray-500">{schema.description}</p>
+      )}
+    </div>
+  );
+}
+
+// One input for a schema, rendering nested objects and arrays recursively
+function SchemaField({ name, schema, draft, path, required, errors, onChange }: SchemaFieldProps) {
+  const kind = getFieldKind(schema);
+  const error = errors[path];
+  const id = `tool-arg-${path}`;
+
+  let control: JSX.Element;
+  switch (kind) {
+    case "string":
+      control = (
+        <Input
+          id={id}
+          type={schema.format === "uri" ? "url" : "text"}
+          value={draft as string}
+          onChange={(e) => onChange(e.target.value)}
+          data-testid={`input-tool-arg-${path}`}
+        />
+      );
+      break;
+    case "number":
+    case "integer":
+      control = (
+        <Input
+          id={id}
+          type="number"
+          step={kind === "integer" ? 1 : "any"}
+          min={schema.minimum}
+          max={schema.maximum}
+          value={draft as string}
+          onChange={(e) => onChange(e.target.value)}
+          data-testid={`input-tool-arg-${path}`}
+        />
+      );
+      break;
+    case "boolean":
+      return (
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id={id}
+            checked={draft === true}
+            onCheckedChange={(checked) => onChange(checked === true)}
+            className="mt-0.5"
+            data-testid={`input-tool-arg-${path}`}
+          />
+          <FieldLabel name={name} schema={schema} path={path} required={required} />
+        </div>
+      );
+    case "enum":
+      control = (
+        <Select
+          value={(draft as string) || NO_OPTION}
+          onValueChange={(value) => onChange(value === NO_OPTION ? "" : value)}
+        >
+          <SelectTrigger id={id} data-testid={`select-tool-arg-${path}`}>
+            <SelectValue placeholder="Choose…" />
+          </SelectTrigger>
+          <SelectContent>
+            {!required && <SelectItem value={NO_OPTION}>—</SelectItem>}
+            {schema.enum!.map((option, index) => (
+              <SelectItem key={index} value={String(index)}>
+                {typeof option === "string" ? option : JSON.stringify(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+      break;
+    case "object": {
+      const fields = draft as Record<string, SchemaDraft>;
+      return (
+        <fieldset className="border border-gray-200 rounded-md p-3 space-y-3">
+          <legend className="px-1">
+            <FieldLabel name={name} schema={schema} path={path} required={required} />
+          </legend>
+          <SchemaFields schema={schema} fields={fields} path={path} errors={errors} onChange={onChange} />
+        </fieldset>
+      );
+    }
+    case "array": {
+      const items = draft as SchemaDraft[];
+      control = (
+        <div className="space-y-2">
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1">
+                <SchemaField
+                  name={`${name}[${index}]`}
+                  schema={schema.items!}
+                  draft={item}
+                  path={childPath(path, index)}
+                  required
+                  errors={errors}
+                  onChange={(value) => onChange(items.map((current, i) => (i === index ? value : current)))}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+                aria-label="Remove item"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...items, toDraft(schema.items!)])}
+            data-testid={`button-add-tool-arg-${path}`}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add item
+          </Button>
+        </div>
+      );
+      break;
+    }
+    case "json":
+      control = (
+        <Textarea
+          id={id}
+          value={draft as string}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          className="font-mono text-sm"
+          placeholder="JSON value"
+          data-testid={`input-tool-arg-${path}`}
+        />
+      );
+      break;
+  }
+
+  return (
+    <div>
+      <FieldLabel name={name} schema={schema} path={path} required={required} />
+      {control}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+function SchemaFields({ schema, fields, path, errors, onChange }: {
+  schema: JSONSchema;
+  fields: Record<string, SchemaDraft>;
+  path: string;
+  errors: SchemaErrors;
+  onChange: (draft: SchemaDraft) => void;
+}) {
+  const properties = Object.entries(schema.properties || {});
+  if (properties.length === 0) {
+    return <p className="text-sm text-gray-500">{path ? "No fields." : "This tool takes no arguments."}</p>;
+  }
+  return (
+    <>
+      {properties.map(([key, property]) => (
+        <SchemaField
+          key={key}
+          name={key}
+          schema={property}
+          draft={fields[key]}
+          path={childPath(path, key)}
+          required={(schema.required || []).includes(key)}
+          errors={errors}
+          onChange={(value) => onChange({ ...fields, [key]: value })}
+        />
+      ))}
+    </>
+  );
+}
+
+// The call-tool response, with the policy decision that applied to the call
+type ToolRunResponse = MCPToolResponse & { policy?: MCPPolicyDecision; approvalRequired?: boolean };
+
+interface ToolRunPanelProps {
+  serverId: string;
+  tool: MCPTool;
+}
+
+// Run a tool by hand, with a form generated from its input schema
+export function ToolRunPanel({ serverId, tool }: ToolRunPanelProps) {
+  const schema = (tool.inputSchema as JSONSchema | undefined) ?? EMPTY_SCHEMA;
+  const [draft, setDraft] = useState<SchemaDraft>(() => toDraft(schema));
+  const [errors, setErrors] = useState<SchemaErrors>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<MCPToolResponse & { durationMs: number } | null>(null);
+  // Set when a policy rule asks the user to confirm the call before it runs
+  const [pendingApproval, setPendingApproval] = useState<{ arguments: unknown; policy: MCPPolicyDecision } | null>(null);
+
+  const runTool = async (args: unknown, approved?: boolean) => {
+    setIsRunning(true);
+    setPendingApproval(null);
+    const start = Date.now();
+    try {
+      const response = await fetch('/api/mcp/call-tool', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ serverId, toolName: tool.name, arguments: args, ...(approved && { approved }) }),
+      });
+      const body: ToolRunResponse = await response.json();
+      if (body.approvalRequired && body.policy) {
+        setPendingApproval({ arguments: args, policy: body.policy });
+        setResult(null);
+      } else {
+        setResult({ ...body, durationMs: Date.now() - start });
+      }
+    } catch (error) {
+      setResult({
+        success: false,
+        error: error instanceof Error ? error.message : "Tool call failed",
+        durationMs: Date.now() - start,
+      });
+    }
+    setIsRunning(false);
+  };
+
+  const handleRun = () => {
+    const built = buildArguments(schema, draft);
+    setErrors(built.errors);
+    if (Object.keys(built.errors).length === 0) {
+      runTool(built.arguments);
+    }
+  };
+
+  const failed = result && (!result.success || result.isError);
+
+  return (
+    <div className="space-y-3" data-testid={`tool-run-panel-${tool.name}`}>
+      {getFieldKind(schema) === "object" ? (
+        <SchemaFields
+          schema={schema}
+          fields={draft as Record<string, SchemaDraft>}
+          path=""
+          errors={errors}
+          onChange={setDraft}
+        />
+      ) : (
+        <SchemaField name="arguments" schema={schema} draft={draft} path="" required={false} errors={errors} onChange={setDraft} />
+      )}
+
+      <div className="flex items-center gap-2">
+        <Button onClick={handleRun} disabled={isRunning} size="sm" data-testid={`button-run-tool-${tool.name}`}>
+          {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+          Run
+        </Button>
+        <Button
+          onClick={() => {
+            setDraft(toDraft(schema));
+            setErrors({});
+            setResult(null);
+            setPendingApproval(null);
+          }}
+          disabled={isRunning}
+          variant="outline"
+          size="sm"
+        >
+          Reset
+        </Button>
+        {Object.keys(errors).length > 0 && (
+          <span className="text-sm text-red-600">Fix the highlighted fields</span>
+        )}
+      </div>
+
+      {pendingApproval && (
+        <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm space-y-2" data-testid={`tool-run-approval-${tool.name}`}>
+          <p className="flex items-start gap-2 text-yellow-800">
+            <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>
+              Policy rule <span className="font-mono">{pendingApproval.policy.ruleId}</span> asks for approval before this call
+              runs{pendingApproval.policy.reason && <>: {pendingApproval.policy.reason}</>}
+            </span>
+          </p>
+          <div className="flex gap-2">
+            <Button onClick={() => runTool(pendingApproval.arguments, true)} size="sm" data-testid={`button-approve-run-${tool.name}`}>
+              Run anyway
+            </Button>
+            <Button onClick={() => setPendingApproval(null)} variant="outline" size="sm">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="text-sm" data-testid={`tool-run-result-${tool.name}`}>
+          <div className="flex items-center gap-2 mb-1 text-gray-600">
+            {failed ? <XCircle className="w-4 h-4 text-red-500" /> : <CheckCircle2 className="w-4 h-4 text-green-500" />}
+            <span>{failed ? "Failed" : "Result"}</span>
+            <span className="text-xs text-gray-400">{result.durationMs}ms</span>
+          </div>
+          <ToolResultView result={result} name={tool.name} />
+        </div>
+      )}
+    </div>
+  );
+}
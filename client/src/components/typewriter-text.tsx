@@ -1,41 +0,0 @@
-import { useState, useEffect } from 'react';
-
-interface TypewriterTextProps {
-  text: string;
-  speed?: number;
-  className?: string;
-  onComplete?: () => void;
-}
-
-export function TypewriterText({ text, speed = 30, className, onComplete }: TypewriterTextProps) {
-  const [displayedText, setDisplayedText] = useState('');
-  const [currentIndex, setCurrentIndex] = useState(0);
-
-  useEffect(() => {
-    if (currentIndex < text.length) {
-      const timer = setTimeout(() => {
-        setDisplayedText(prev => prev + text[currentIndex]);
-        setCurrentIndex(prev => prev + 1);
-      }, speed);
-
-      return () => clearTimeout(timer);
-    } else if (onComplete) {
-      onComplete();
-    }
-  }, [currentIndex, text, speed, onComplete]);
-
-  // Reset when text changes
-  useEffect(() => {
-    setDisplayedText('');
-    setCurrentIndex(0);
-  }, [text]);
-
-  return (
-    <span className={className}>
-      {displayedText}
-      {currentIndex < text.length && (
-        <span className="animate-pulse">|</span>
-      )}
-    </span>
-  );
-}
\ No newline at end of file
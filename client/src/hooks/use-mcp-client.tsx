@@ -1,17 +1,56 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { readEventStream } from "@/lib/event-stream";
+import {
+  loadLegacyConfiguredServers,
+  clearLegacyConfiguredServers,
+} from "@/utils/mcp-storage";
 import type {
   MCPService,
   MCPTool,
   ChatMessage,
+  ConfiguredServer,
+  Conversation,
   LLMModel,
   MCPConfiguration,
   PermissionRequest,
 } from "@/types/mcp";
+import type { MCPAgentToolCall, MCPApprovalScope, MCPToolApprovalRequest } from "@shared/mcp-types";
 
 const STORAGE_KEY = "mcp-client-config";
 
+// Number of stored messages fetched per history page
+const MESSAGE_PAGE_SIZE = 50;
+
+// Ids of messages that exist only in the browser until the server stores them
+const LOCAL_ID_PREFIX = "local-";
+const THINKING_ID_PREFIX = "thinking-";
+
+// Stored messages arrive with ISO timestamps
+function fromServerMessage(message: any): ChatMessage {
+  return { ...message, timestamp: new Date(message.timestamp) };
+}
+
+function isLocalMessage(message: ChatMessage): boolean {
+  return (
+    message.id.startsWith(LOCAL_ID_PREFIX) ||
+    message.id.startsWith(THINKING_ID_PREFIX)
+  );
+}
+
+// Combine fetched history with messages still in flight, dropping duplicates
+function mergeMessages(
+  stored: ChatMessage[],
+  current: ChatMessage[],
+): ChatMessage[] {
+  const storedIds = new Set(stored.map((message) => message.id));
+  const pending = current.filter(
+    (message) => isLocalMessage(message) && !storedIds.has(message.id),
+  );
+  return [...stored, ...pending];
+}
+
 export function useMCPClient() {
   const queryClient = useQueryClient();
 
@@ -28,11 +67,20 @@ export function useMCPClient() {
   });
 
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMoreMessages, setHasMoreMessages] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
   const [permissionRequest, setPermissionRequest] =
     useState<PermissionRequest | null>(null);
+  // A tool call the running agent is waiting for the user to approve
+  const [toolApprovalRequest, setToolApprovalRequest] =
+    useState<MCPToolApprovalRequest | null>(null);
   const [sidebarWidth, setSidebarWidth] = useState(320);
   const [sidebarSide, setSidebarSide] = useState<"left" | "right">("left");
+  // Text to place in the chat composer, e.g. an expanded prompt; the sidebar takes it and clears it
+  const [composerDraft, setComposerDraft] = useState<string | null>(null);
+  // Files to attach to the next chat message, e.g. a resource from the Resources tab
+  const [pendingAttachments, setPendingAttachments] = useState<File[]>([]);
 
   // Load services data
   const { data: services = [], isLoading: servicesLoading } = useQuery<
@@ -41,11 +89,136 @@ export function useMCPClient() {
     queryKey: ["/api/services"],
   });
 
+  // Load MCP servers from the server-side registry
+  const { data: configuredServers = [] } = useQuery<ConfiguredServer[]>({
+    queryKey: ["/api/mcp/servers"],
+  });
+
+  // Move servers saved in localStorage by earlier versions into the registry
+  useEffect(() => {
+    const legacyServers = loadLegacyConfiguredServers();
+    if (legacyServers.length === 0) {
+      return;
+    }
+
+    Promise.allSettled(
+      legacyServers.map(({ id, name, config: serverConfig, tools }) =>
+        apiRequest("POST", "/api/mcp/servers", {
+          id,
+          name,
+          config: serverConfig,
+          tools,
+        }),
+      ),
+    ).then(() => {
+      clearLegacyConfiguredServers();
+      queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+    });
+  }, [queryClient]);
+
   // Load LLM models
   const { data: models = [], isLoading: modelsLoading } = useQuery<LLMModel[]>({
     queryKey: ["/api/models"],
   });
 
+  // Load conversation threads
+  const { data: conversations = [] } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  // Fetch one page of a thread's stored history, oldest-first
+  const fetchMessagePage = useCallback(
+    async (conversationId: string, before?: string) => {
+      const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+      if (before) {
+        params.set("before", before);
+      }
+      const response = await apiRequest(
+        "GET",
+        `/api/conversations/${conversationId}/messages?${params}`,
+      );
+      const page: { messages: any[]; hasMore: boolean } = await response.json();
+      return {
+        messages: page.messages.map(fromServerMessage),
+        hasMore: page.hasMore,
+      };
+    },
+    [],
+  );
+
+  // Load the latest page of a thread into the chat view
+  const loadConversation = useCallback(
+    async (conversationId: string) => {
+      setIsLoadingHistory(true);
+      try {
+        const page = await fetchMessagePage(conversationId);
+        // Keep a message that was sent while the history was loading
+        setMessages((prev) => mergeMessages(page.messages, prev));
+        setHasMoreMessages(page.hasMore);
+      } catch (error) {
+        // The thread no longer exists; start over with an empty chat
+        console.error("Failed to load conversation:", error);
+        setMessages((prev) => prev.filter(isLocalMessage));
+        setHasMoreMessages(false);
+        setConfig((prev) => ({ ...prev, activeConversationId: null }));
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    },
+    [fetchMessagePage],
+  );
+
+  // Prepend the page of history before the oldest message shown
+  const loadOlderMessages = useCallback(async () => {
+    const conversationId = config.activeConversationId;
+    const oldest = messages.find((message) => !isLocalMessage(message));
+    if (!conversationId || !oldest || isLoadingHistory) {
+      return;
+    }
+
+    setIsLoadingHistory(true);
+    try {
+      const page = await fetchMessagePage(conversationId, oldest.id);
+      setMessages((prev) => {
+        const shownIds = new Set(prev.map((message) => message.id));
+        return [
+          ...page.messages.filter((message) => !shownIds.has(message.id)),
+          ...prev,
+        ];
+      });
+      setHasMoreMessages(page.hasMore);
+    } catch (error) {
+      console.error("Failed to load older messages:", error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [config.activeConversationId, messages, isLoadingHistory, fetchMessagePage]);
+
+  // Restore the thread that was open when the page was last closed
+  const restoredConversation = useRef(false);
+  useEffect(() => {
+    if (restoredConversation.current) {
+      return;
+    }
+    restoredConversation.current = true;
+    if (config.activeConversationId) {
+      loadConversation(config.activeConversationId);
+    }
+  }, [config.activeConversationId, loadConversation]);
+
+  // Fall back to the first reachable model if the saved one is not offered
+  useEffect(() => {
+    if (
+      models.length > 0 &&
+      !models.some((model) => model.id === config.selectedModel)
+    ) {
+      const fallback =
+        models.find((model) => model.available !== false) || models[0];
+      setConfig((prev) => ({ ...prev, selectedModel: fallback.id }));
+    }
+  }, [models, config.selectedModel]);
+
   // Save config to localStorage whenever it changes
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
@@ -71,30 +244,59 @@ export function useMCPClient() {
     }
   }, [config.darkMode]);
 
+  // Apply an update to the in-flight assistant placeholder message
+  const updatePlaceholder = useCallback(
+    (placeholderId: string, update: (message: ChatMessage) => ChatMessage) => {
+      setMessages((prev) =>
+        prev.map((msg) => (msg.id === placeholderId ? update(msg) : msg)),
+      );
+    },
+    [],
+  );
+
+  const upsertToolCall = useCallback(
+    (placeholderId: string, toolCall: MCPAgentToolCall) => {
+      updatePlaceholder(placeholderId, (msg) => {
+        const existing = msg.toolCalls || [];
+        const toolCalls = existing.some((call) => call.id === toolCall.id)
+          ? existing.map((call) => (call.id === toolCall.id ? toolCall : call))
+          : [...existing, toolCall];
+        return { ...msg, isThinking: false, isStreaming: true, toolCalls };
+      });
+    },
+    [updatePlaceholder],
+  );
+
   // AbortController for stopping chat requests
   const [abortController, setAbortController] =
     useState<AbortController | null>(null);
 
   // Send message mutation
   const sendMessageMutation = useMutation({
-    mutationFn: async (data: { message: string; attachments: File[] }) => {
+    mutationFn: async (data: {
+      message: string;
+      attachments: File[];
+      optimisticId: string;
+      placeholderId: string;
+    }) => {
       const controller = new AbortController();
       setAbortController(controller);
 
+      const selectedToolIds = Object.keys(config.selectedTools).filter(
+        (key) => config.selectedTools[key],
+      );
+
       // Create FormData if we have attachments
       let requestBody: any;
       if (data.attachments.length > 0) {
         const formData = new FormData();
         formData.append("message", data.message);
         formData.append("serviceId", config.selectedService);
-        formData.append(
-          "selectedTools",
-          JSON.stringify(
-            Object.keys(config.selectedTools).filter(
-              (key) => config.selectedTools[key],
-            ),
-          ),
-        );
+        formData.append("model", config.selectedModel);
+        if (config.activeConversationId) {
+          formData.append("conversationId", config.activeConversationId);
+        }
+        formData.append("selectedTools", JSON.stringify(selectedToolIds));
         data.attachments.forEach((file, index) => {
           formData.append(`attachment_${index}`, file);
         });
@@ -103,9 +305,9 @@ export function useMCPClient() {
         requestBody = {
           message: data.message,
           serviceId: config.selectedService,
-          selectedTools: Object.keys(config.selectedTools).filter(
-            (key) => config.selectedTools[key],
-          ),
+          model: config.selectedModel,
+          conversationId: config.activeConversationId || undefined,
+          selectedTools: selectedToolIds,
         };
       }
 
@@ -114,23 +316,92 @@ export function useMCPClient() {
         "/api/chat",
         requestBody,
         controller.signal,
+        { Accept: "text/event-stream" },
       );
 
+      // Render tokens and tool activity as they arrive
+      let finalMessage: ChatMessage | null = null;
+      let streamError: string | null = null;
+      await readEventStream(response, ({ event, data: payload }) => {
+        switch (event) {
+          case "conversation":
+            // The server starts a thread for the first message of a new chat
+            setConfig((prev) => ({ ...prev, activeConversationId: payload.id }));
+            queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+            break;
+          case "user_message":
+            // Swap the optimistic copy for the stored message and its server id
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === data.optimisticId ? fromServerMessage(payload) : msg,
+              ),
+            );
+            break;
+          case "token":
+            updatePlaceholder(data.placeholderId, (msg) => ({
+              ...msg,
+              content: (msg.isThinking ? "" : msg.content) + payload.content,
+              isThinking: false,
+              isStreaming: true,
+            }));
+            break;
+          case "tool_call_start":
+          case "tool_call_end":
+            upsertToolCall(data.placeholderId, payload.toolCall);
+            break;
+          case "tool_approval_request":
+            upsertToolCall(data.placeholderId, payload.request.toolCall);
+            setToolApprovalRequest(payload.request);
+            break;
+          case "tool_approval_end":
+            // Also closes the request when it timed out or was answered elsewhere
+            setToolApprovalRequest((prev) => (prev?.id === payload.id ? null : prev));
+            break;
+          case "done":
+            finalMessage = payload.response;
+            break;
+          case "error":
+            streamError = payload.message;
+            break;
+        }
+      });
+
       setAbortController(null);
-      return response.json();
+      setToolApprovalRequest(null);
+      if (streamError) {
+        throw new Error(streamError);
+      }
+      return { response: finalMessage as ChatMessage | null };
     },
-    onSuccess: (data) => {
+    onSuccess: (data, variables) => {
       setMessages((prev) => {
-        // Remove the thinking message and add the real response
-        const withoutThinking = prev.filter((msg) => !msg.isThinking);
-        return [...withoutThinking, data.response];
+        // Swap the streamed placeholder for the stored response
+        if (!data.response) {
+          return prev.filter((msg) => msg.id !== variables.placeholderId);
+        }
+        return prev.map((msg) =>
+          msg.id === variables.placeholderId
+            ? fromServerMessage(data.response)
+            : msg,
+        );
       });
       queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
       setAbortController(null);
     },
-    onError: () => {
-      setMessages((prev) => prev.filter((msg) => !msg.isThinking));
+    onError: (_error, variables) => {
+      // Keep whatever was streamed before the chat was stopped or failed
+      setMessages((prev) =>
+        prev
+          .filter((msg) => !(msg.id === variables.placeholderId && msg.isThinking))
+          .map((msg) =>
+            msg.id === variables.placeholderId
+              ? { ...msg, isStreaming: false }
+              : msg,
+          ),
+      );
       setAbortController(null);
+      setToolApprovalRequest(null);
     },
   });
 
@@ -172,6 +443,84 @@ export function useMCPClient() {
     setConfig((prev) => ({ ...prev, ...updates }));
   }, []);
 
+  // Switch the chat view to another thread, or to a blank chat when null
+  const selectConversation = useCallback(
+    (conversationId: string | null) => {
+      if (conversationId === config.activeConversationId) {
+        return;
+      }
+      abortController?.abort();
+      updateConfig({ activeConversationId: conversationId });
+      setMessages([]);
+      setHasMoreMessages(false);
+      if (conversationId) {
+        loadConversation(conversationId);
+      }
+    },
+    [config.activeConversationId, abortController, updateConfig, loadConversation],
+  );
+
+  // Open a blank chat with the given text ready to send
+  const startConversationFromPrompt = useCallback(
+    (text: string) => {
+      selectConversation(null);
+      setComposerDraft(text);
+    },
+    [selectConversation],
+  );
+
+  const createConversationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/conversations", {});
+      return (await response.json()) as Conversation;
+    },
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      selectConversation(conversation.id);
+    },
+  });
+
+  const renameConversationMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      const response = await apiRequest("PATCH", `/api/conversations/${id}`, {
+        title,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+  });
+
+  const deleteConversationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/conversations/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      if (id === config.activeConversationId) {
+        selectConversation(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+  });
+
+  // Copy a thread (up to messageId, if given) into a new thread and open it
+  const forkConversationMutation = useMutation({
+    mutationFn: async ({ id, messageId }: { id: string; messageId?: string }) => {
+      const response = await apiRequest(
+        "POST",
+        `/api/conversations/${id}/fork`,
+        { messageId },
+      );
+      return (await response.json()) as Conversation;
+    },
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      selectConversation(conversation.id);
+    },
+  });
+
   const sendMessage = useCallback(
     (content: string, attachments?: File[]) => {
       let messageContent = content;
@@ -185,14 +534,14 @@ export function useMCPClient() {
       }
 
       const userMessage: ChatMessage = {
-        id: Date.now().toString(),
+        id: `${LOCAL_ID_PREFIX}${Date.now()}`,
         content: messageContent,
         timestamp: new Date(),
         type: "user",
       };
 
       const thinkingMessage: ChatMessage = {
-        id: `thinking-${Date.now()}`,
+        id: `${THINKING_ID_PREFIX}${Date.now()}`,
         content: "AI is thinking...",
         timestamp: new Date(),
         type: "assistant",
@@ -203,6 +552,8 @@ export function useMCPClient() {
       sendMessageMutation.mutate({
         message: content,
         attachments: attachments || [],
+        optimisticId: userMessage.id,
+        placeholderId: thinkingMessage.id,
       });
     },
     [sendMessageMutation],
@@ -218,12 +569,15 @@ export function useMCPClient() {
           (s: MCPService) => s.id === config.selectedService,
         );
         const tool = service?.tools.find((t: MCPTool) => t.id === toolId);
+        // Tools of registered servers have "serverId:toolName" ids
+        const server = configuredServers.find((s) => toolId.startsWith(`${s.id}:`));
+        const serverTool = server?.tools.find((t) => `${server.id}:${t.name}` === toolId);
 
-        if (tool) {
+        if (tool || serverTool) {
           setPermissionRequest({
             toolId,
-            toolName: tool.name,
-            description: tool.description,
+            toolName: tool?.name || serverTool!.name,
+            description: tool?.description || serverTool!.description || "",
             riskLevel: "high",
           });
         }
@@ -236,7 +590,7 @@ export function useMCPClient() {
         });
       }
     },
-    [config.selectedTools, config.selectedService, services, updateConfig],
+    [config.selectedTools, config.selectedService, services, configuredServers, updateConfig],
   );
 
   const approvePermission = useCallback(() => {
@@ -255,6 +609,16 @@ export function useMCPClient() {
     setPermissionRequest(null);
   }, []);
 
+  // Withdraw approvals, e.g. for tools whose definition changed since they were selected
+  const revokeToolApprovals = useCallback((toolIds: string[]) => {
+    setConfig((prev) => ({
+      ...prev,
+      selectedTools: Object.fromEntries(
+        Object.entries(prev.selectedTools).filter(([toolId]) => !toolIds.includes(toolId)),
+      ),
+    }));
+  }, []);
+
   const deselectAllTools = useCallback(
     (currentServerTools?: any[]) => {
       const hasAnySelected = Object.values(config.selectedTools).some(Boolean);
@@ -263,9 +627,10 @@ export function useMCPClient() {
         // Deselect all
         updateConfig({ selectedTools: {} });
       } else {
-        // Select all available tools for current service
+        // Select all available tools for current service, except high-risk ones,
+        // which are approved one by one
         if (currentServerTools) {
-          const allToolsSelected = currentServerTools.reduce(
+          const allToolsSelected = currentServerTools.filter((tool: any) => tool.riskLevel !== "high").reduce(
             (acc: Record<string, boolean>, tool: any) => {
               const toolId = `${config.selectedService}:${tool.name}`;
               acc[toolId] = true;
@@ -282,6 +647,12 @@ export function useMCPClient() {
     [config.selectedTools, config.selectedService, updateConfig],
   );
 
+  // Re-run model discovery on the server, bypassing its cache
+  const refreshModels = useCallback(async () => {
+    const response = await apiRequest("GET", "/api/models?refresh=true");
+    queryClient.setQueryData(["/api/models"], await response.json());
+  }, [queryClient]);
+
   const refreshService = useCallback(() => {
     queryClient.invalidateQueries({ queryKey: ["/api/services"] });
   }, [queryClient]);
@@ -290,6 +661,28 @@ export function useMCPClient() {
     updateConfig({ darkMode: !config.darkMode });
   }, [config.darkMode, updateConfig]);
 
+  // Answer the agent's pending tool call. The server sends the next events (the call
+  // running or being skipped) on the chat stream.
+  const respondToToolApproval = useCallback(
+    async (approved: boolean, scope: MCPApprovalScope = "once") => {
+      if (!toolApprovalRequest) {
+        return;
+      }
+      const { id, toolCall } = toolApprovalRequest;
+      setToolApprovalRequest(null);
+      try {
+        await apiRequest("POST", `/api/chat/tool-approvals/${encodeURIComponent(id)}`, { approved, scope });
+        if (approved && scope === "server") {
+          queryClient.invalidateQueries({ queryKey: ["/api/mcp/servers"] });
+        }
+      } catch (error) {
+        // The run ended or the request timed out meanwhile
+        console.error(`Failed to answer approval for ${toolCall.toolName}:`, error);
+      }
+    },
+    [toolApprovalRequest, queryClient],
+  );
+
   const stopChat = useCallback(() => {
     if (abortController) {
       abortController.abort();
@@ -302,7 +695,25 @@ export function useMCPClient() {
     updateConfig,
     messages,
     services,
+    configuredServers,
     models,
+    conversations,
+    hasMoreMessages,
+    isLoadingHistory,
+    loadOlderMessages,
+    selectConversation,
+    composerDraft,
+    clearComposerDraft: () => setComposerDraft(null),
+    startConversationFromPrompt,
+    pendingAttachments,
+    attachToNextMessage: (files: File[]) => setPendingAttachments((prev) => [...prev, ...files]),
+    clearPendingAttachments: () => setPendingAttachments([]),
+    createConversation: () => createConversationMutation.mutate(),
+    renameConversation: (id: string, title: string) =>
+      renameConversationMutation.mutate({ id, title }),
+    deleteConversation: deleteConversationMutation.mutate,
+    forkConversation: (id: string, messageId?: string) =>
+      forkConversationMutation.mutate({ id, messageId }),
     permissionRequest,
     sidebarWidth,
     setSidebarWidth,
@@ -313,8 +724,12 @@ export function useMCPClient() {
     toggleToolSelection,
     approvePermission,
     denyPermission,
+    toolApprovalRequest,
+    respondToToolApproval,
     deselectAllTools,
+    revokeToolApprovals,
     refreshService,
+    refreshModels,
     toggleTheme,
     stopChat,
     testConnection: testConnectionMutation.mutate,
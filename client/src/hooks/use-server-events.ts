@@ -0,0 +1,29 @@
+import { useEffect, useRef } from "react";
+import type { MCPServerNotification } from "@shared/mcp-types";
+
+// Receive a server's change notifications while the component is mounted. The server
+// keeps its session to the MCP server open meanwhile; EventSource reconnects on its own
+// if the stream drops.
+export function useServerEvents(
+  serverId: string,
+  onNotification: (notification: MCPServerNotification) => void,
+) {
+  const handler = useRef(onNotification);
+  handler.current = onNotification;
+
+  useEffect(() => {
+    const source = new EventSource(`/api/mcp/servers/${encodeURIComponent(serverId)}/events`);
+    const listener = (event: MessageEvent) => {
+      try {
+        handler.current(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Invalid server notification:", error);
+      }
+    };
+    source.addEventListener("notification", listener);
+    return () => {
+      source.removeEventListener("notification", listener);
+      source.close();
+    };
+  }, [serverId]);
+}
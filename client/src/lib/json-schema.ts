@@ -0,0 +1,240 @@
+// The parts of JSON Schema that MCP tools use to describe their arguments
+export interface JSONSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+// How a schema is edited; anything the form cannot represent is typed in as JSON
+export type SchemaFieldKind = "string" | "number" | "integer" | "boolean" | "enum" | "object" | "array" | "json";
+
+// Form state for a value while it is being edited: numbers are kept as typed,
+// enums as the index of the chosen option and JSON fields as text
+export type SchemaDraft = string | boolean | SchemaDraft[] | { [key: string]: SchemaDraft };
+
+// Validation messages by field path, e.g. "repo.owner" or "labels[1]"
+export type SchemaErrors = Record<string, string>;
+
+export function getFieldKind(schema: JSONSchema): SchemaFieldKind {
+  if (schema.enum && schema.enum.length > 0) {
+    return "enum";
+  }
+  // Nullable types such as ["string", "null"] are edited as their non-null type
+  const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(type => type && type !== "null");
+  const type = types.length === 1 ? types[0] : types.length === 0 && schema.properties ? "object" : undefined;
+  switch (type) {
+    case "string":
+    case "number":
+    case "integer":
+    case "boolean":
+      return type;
+    case "object":
+      return schema.properties ? "object" : "json";
+    case "array":
+      return schema.items ? "array" : "json";
+    default:
+      return "json";
+  }
+}
+
+export function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+// Form state for a value, e.g. a schema default or an item added to an array
+export function toDraft(schema: JSONSchema, value: unknown = schema.default): SchemaDraft {
+  switch (getFieldKind(schema)) {
+    case "string":
+      return typeof value === "string" ? value : "";
+    case "number":
+    case "integer":
+      return typeof value === "number" ? String(value) : "";
+    case "boolean":
+      return typeof value === "boolean" ? value : false;
+    case "enum": {
+      const index = schema.enum!.findIndex(option => JSON.stringify(option) === JSON.stringify(value));
+      return index >= 0 ? String(index) : "";
+    }
+    case "object": {
+      const object = value && typeof value === "object" ? value as Record<string, unknown> : {};
+      return Object.fromEntries(Object.entries(schema.properties!).map(([key, property]) => [
+        key,
+        toDraft(property, object[key] ?? property.default),
+      ]));
+    }
+    case "array":
+      return Array.isArray(value) ? value.map(item => toDraft(schema.items!, item)) : [];
+    case "json":
+      return value === undefined ? "" : JSON.stringify(value, null, 2);
+  }
+}
+
+function checkString(schema: JSONSchema, value: string): string | undefined {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    return `Must be at least ${schema.minLength} characters`;
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return `Must be at most ${schema.maxLength} characters`;
+  }
+  if (schema.pattern) {
+    try {
+      if (!new RegExp(schema.pattern, "u").test(value)) {
+        return `Must match ${schema.pattern}`;
+      }
+    } catch {
+      // Patterns JavaScript cannot compile are left to the server
+    }
+  }
+  return undefined;
+}
+
+function checkNumber(schema: JSONSchema, value: number, integer: boolean): string | undefined {
+  if (Number.isNaN(value)) {
+    return "Must be a number";
+  }
+  if (integer && !Number.isInteger(value)) {
+    return "Must be a whole number";
+  }
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    return `Must be at least ${schema.minimum}`;
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    return `Must be at most ${schema.maximum}`;
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    return `Must be greater than ${schema.exclusiveMinimum}`;
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    return `Must be less than ${schema.exclusiveMaximum}`;
+  }
+  return undefined;
+}
+
+// Nothing entered: empty text, unticked boxes and empty lists all the way down
+function isBlankDraft(draft: SchemaDraft): boolean {
+  if (Array.isArray(draft)) {
+    return draft.length === 0;
+  }
+  if (typeof draft === "object") {
+    return Object.values(draft).every(isBlankDraft);
+  }
+  return draft === "" || draft === false;
+}
+
+// The value a draft stands for, or undefined when an optional field was left empty.
+// Problems are recorded in errors under the field's path.
+function fromDraft(
+  schema: JSONSchema,
+  draft: SchemaDraft,
+  path: string,
+  required: boolean,
+  errors: SchemaErrors,
+): unknown {
+  const fail = (message: string) => {
+    errors[path] = message;
+    return undefined;
+  };
+
+  switch (getFieldKind(schema)) {
+    case "string": {
+      const text = draft as string;
+      if (text === "") {
+        return required ? fail("Required") : undefined;
+      }
+      const problem = checkString(schema, text);
+      return problem ? fail(problem) : text;
+    }
+    case "number":
+    case "integer": {
+      const text = (draft as string).trim();
+      if (text === "") {
+        return required ? fail("Required") : undefined;
+      }
+      const value = Number(text);
+      const problem = checkNumber(schema, value, getFieldKind(schema) === "integer");
+      return problem ? fail(problem) : value;
+    }
+    case "boolean":
+      // An unticked optional box without a default leaves the choice to the server
+      return required || draft === true || schema.default !== undefined ? draft === true : undefined;
+    case "enum": {
+      if (draft === "") {
+        return required ? fail("Required") : undefined;
+      }
+      return schema.enum![Number(draft)];
+    }
+    case "object": {
+      const fields = draft as Record<string, SchemaDraft>;
+      // An optional object left empty is omitted, even if it has required fields of its own
+      if (!required && isBlankDraft(fields)) {
+        return undefined;
+      }
+      const requiredKeys = schema.required || [];
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties!)) {
+        const value = fromDraft(property, fields[key], childPath(path, key), requiredKeys.includes(key), errors);
+        if (value !== undefined) {
+          result[key] = value;
+        }
+      }
+      return result;
+    }
+    case "array": {
+      const items = draft as SchemaDraft[];
+      if (items.length === 0 && !required) {
+        return undefined;
+      }
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        return fail(`Needs at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+        return fail(`Allows at most ${schema.maxItems} items`);
+      }
+      return items.map((item, index) => fromDraft(schema.items!, item, childPath(path, index), true, errors));
+    }
+    case "json": {
+      const text = (draft as string).trim();
+      if (text === "") {
+        return required ? fail("Required") : undefined;
+      }
+      try {
+        return JSON.parse(text);
+      } catch {
+        return fail("Invalid JSON");
+      }
+    }
+  }
+}
+
+// Tool arguments from the form, with any validation errors by field path
+export function buildArguments(schema: JSONSchema, draft: SchemaDraft): {
+  arguments: Record<string, unknown>;
+  errors: SchemaErrors;
+} {
+  const errors: SchemaErrors = {};
+  // A schema typed in as JSON may be left empty for no arguments
+  const value = fromDraft(schema, draft, "", getFieldKind(schema) !== "json", errors);
+  return {
+    arguments: value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {},
+    errors,
+  };
+}
@@ -11,9 +11,10 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  extraHeaders?: Record<string, string>
 ): Promise<Response> {
-  let headers: HeadersInit = {};
+  let headers: Record<string, string> = { ...extraHeaders };
   let body: string | FormData | undefined;
   
   if (data) {
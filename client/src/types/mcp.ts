@@ -1,3 +1,11 @@
+import type { MCPAgentToolCall, MCPConfiguredServer, MCPSessionState } from "@shared/mcp-types";
+
+// An MCP server from the server-side registry
+export type ConfiguredServer = MCPConfiguredServer;
+
+// State of the server-side session to a registered MCP server
+export type SessionState = MCPSessionState;
+
 export interface MCPService {
   id: string;
   name: string;
@@ -33,13 +41,29 @@ export interface ChatMessage {
   timestamp: Date;
   type: "user" | "assistant";
   isThinking?: boolean;
+  isStreaming?: boolean;
   attachedFiles?: FileAttachment[];
+  toolCalls?: MCPAgentToolCall[];
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  forkedFromId?: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface LLMModel {
   id: string;
   name: string;
   provider: string;
+  capabilities?: {
+    tools: boolean;
+    vision: boolean;
+  };
+  available?: boolean;
+  error?: string;
 }
 
 export interface MCPConfiguration {
@@ -47,6 +71,7 @@ export interface MCPConfiguration {
   selectedService: string;
   selectedTools: Record<string, boolean>;
   darkMode: boolean;
+  activeConversationId?: string | null;
 }
 
 export interface PermissionRequest {
@@ -6,101 +6,9 @@ import { MCPHttpConfig } from "@shared/mcp-types";
 
 const STORAGE_PREFIX = 'mcp-client';
 
-// Since we only support HTTP now, stored config is the same as the base config
+// Server settings as saved by earlier versions, which kept bearer tokens in the browser
 export type StoredMCPConfig = MCPHttpConfig;
 
-/**
- * Get storage key for a specific service
- */
-function getStorageKey(serviceId: string): string {
-  return `${STORAGE_PREFIX}-${serviceId}`;
-}
-
-/**
- * Save MCP configuration for a specific service
- */
-export function saveServiceConfig(serviceId: string, config: StoredMCPConfig): void {
-  // Check if we're in a browser environment
-  if (typeof window === 'undefined') {
-    return;
-  }
-
-  try {
-    const key = getStorageKey(serviceId);
-    localStorage.setItem(key, JSON.stringify(config));
-    console.log('💾 Saved MCP config for service:', serviceId);
-  } catch (error) {
-    console.error('Failed to save service config:', error);
-  }
-}
-
-/**
- * Load MCP configuration for a specific service
- */
-export function loadServiceConfig(serviceId: string): StoredMCPConfig | null {
-  // Check if we're in a browser environment
-  if (typeof window === 'undefined') {
-    return null;
-  }
-
-  try {
-    const key = getStorageKey(serviceId);
-    const stored = localStorage.getItem(key);
-    if (stored) {
-      return JSON.parse(stored) as StoredMCPConfig;
-    }
-  } catch (error) {
-    console.error('Failed to load service config:', error);
-  }
-  return null;
-}
-
-/**
- * Remove MCP configuration for a specific service
- */
-export function removeServiceConfig(serviceId: string): void {
-  // Check if we're in a browser environment
-  if (typeof window === 'undefined') {
-    return;
-  }
-
-  try {
-    const key = getStorageKey(serviceId);
-    localStorage.removeItem(key);
-  } catch (error) {
-    console.error('Failed to remove service config:', error);
-  }
-}
-
-/**
- * Get all saved service configurations
- */
-export function getAllServiceConfigs(): Record<string, StoredMCPConfig> {
-  // Check if we're in a browser environment
-  if (typeof window === 'undefined') {
-    return {};
-  }
-
-  const configs: Record<string, StoredMCPConfig> = {};
-
-  try {
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(STORAGE_PREFIX + '-') && !key.includes('-tool-selection')) {
-        const serviceId = key.replace(STORAGE_PREFIX + '-', '');
-        const config = loadServiceConfig(serviceId);
-        if (config) {
-          configs[serviceId] = config;
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Failed to get all service configs:', error);
-  }
-
-  return configs;
-}
-
 /**
  * Tool selection state management
  */
@@ -188,11 +96,12 @@ export function setToolSelection(serviceId: string, toolName: string, selected:
 }
 
 /**
- * Configured servers management
+ * Configured servers saved in localStorage by earlier versions.
+ * The registry now lives on the server; these are only read once to migrate them.
  */
-const CONFIGURED_SERVERS_KEY = `${STORAGE_PREFIX}-configured-servers`;
+const LEGACY_CONFIGURED_SERVERS_KEY = `${STORAGE_PREFIX}-configured-servers`;
 
-export interface ConfiguredServer {
+export interface LegacyConfiguredServer {
   id: string;
   name: string;
   config: StoredMCPConfig;
@@ -201,74 +110,36 @@ export interface ConfiguredServer {
 }
 
 /**
- * Save a configured server
+ * Load servers configured before the server-side registry existed
  */
-export function saveConfiguredServer(server: Omit<ConfiguredServer, 'createdAt'>): void {
-  if (typeof window === 'undefined') {
-    return;
-  }
-
-  try {
-    const configuredServers = loadConfiguredServers();
-    const newServer: ConfiguredServer = {
-      ...server,
-      createdAt: new Date().toISOString()
-    };
-    
-    // Remove existing server with same ID if it exists
-    const updatedServers = configuredServers.filter(s => s.id !== server.id);
-    updatedServers.push(newServer);
-    
-    localStorage.setItem(CONFIGURED_SERVERS_KEY, JSON.stringify(updatedServers));
-    
-    // Dispatch custom event for same-tab listeners
-    window.dispatchEvent(new CustomEvent('configuredServersChange', {
-      detail: { servers: updatedServers }
-    }));
-  } catch (error) {
-    console.error('Failed to save configured server:', error);
-  }
-}
-
-/**
- * Load all configured servers
- */
-export function loadConfiguredServers(): ConfiguredServer[] {
+export function loadLegacyConfiguredServers(): LegacyConfiguredServer[] {
   if (typeof window === 'undefined') {
     return [];
   }
 
   try {
-    const stored = localStorage.getItem(CONFIGURED_SERVERS_KEY);
+    const stored = localStorage.getItem(LEGACY_CONFIGURED_SERVERS_KEY);
     if (stored) {
-      return JSON.parse(stored) as ConfiguredServer[];
+      return JSON.parse(stored) as LegacyConfiguredServer[];
     }
   } catch (error) {
-    console.error('Failed to load configured servers:', error);
+    console.error('Failed to load legacy configured servers:', error);
   }
 
   return [];
 }
 
 /**
- * Remove a configured server
+ * Forget the legacy server list once it has been migrated
  */
-export function removeConfiguredServer(serverId: string): void {
+export function clearLegacyConfiguredServers(): void {
   if (typeof window === 'undefined') {
     return;
   }
 
   try {
-    const configuredServers = loadConfiguredServers();
-    const updatedServers = configuredServers.filter(s => s.id !== serverId);
-    
-    localStorage.setItem(CONFIGURED_SERVERS_KEY, JSON.stringify(updatedServers));
-    
-    // Dispatch custom event for same-tab listeners
-    window.dispatchEvent(new CustomEvent('configuredServersChange', {
-      detail: { servers: updatedServers }
-    }));
+    localStorage.removeItem(LEGACY_CONFIGURED_SERVERS_KEY);
   } catch (error) {
-    console.error('Failed to remove configured server:', error);
+    console.error('Failed to clear legacy configured servers:', error);
   }
-}
\ No newline at end of file
+}
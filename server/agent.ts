@@ -0,0 +1,328 @@
+import { randomUUID } from "crypto";
+import type { LLMProvider, LLMMessage, LLMToolCall, LLMToolDefinition, LLMChatOptions } from "./llm";
+import { listMCPTools, callMCPTool } from "./mcp-actions";
+import { MCPAgentServer, MCPAgentToolCall, MCPTool, MCPToolResponse, AgentStreamEvent } from "@shared/mcp-types";
+import { toolDefinitionChanged } from "./tool-drift";
+import { withRiskLevel } from "./tool-risk";
+import type { ToolCallApprover } from "./tool-approvals";
+import { recordToolCall } from "./audit";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'agent' });
+
+// Upper bound on model round-trips that may request tool calls
+const DEFAULT_MAX_STEPS = 5;
+
+// Tool output is truncated before being fed back to the model
+const MAX_TOOL_RESULT_CHARS = 4000;
+
+// Abort a model turn when no chunk arrives for this long
+const MODEL_IDLE_TIMEOUT_MS = 20000;
+
+// A selected MCP tool exposed to the model as a function definition
+export interface AgentToolBinding {
+  functionName: string;
+  server: MCPAgentServer;
+  tool: MCPTool;
+}
+
+export interface AgentRunOptions {
+  provider: LLMProvider;
+  model: string;
+  systemPrompt: string;
+  // Earlier conversation turns, already fitted to the context budget
+  history?: LLMMessage[];
+  userMessage: string;
+  tools: AgentToolBinding[];
+  options?: LLMChatOptions;
+  maxSteps?: number;
+  signal?: AbortSignal;
+  onEvent?: (event: AgentStreamEvent) => void;
+  // Consulted before each tool call; without one every call runs
+  approveToolCall?: ToolCallApprover;
+  // Recorded with each tool call in the audit trail
+  conversationId?: string;
+  userId?: string | null;
+}
+
+export interface AgentRunResult {
+  content: string;
+  toolCalls: MCPAgentToolCall[];
+  aborted: boolean;
+}
+
+// Discover the selected tools on each server and bind them to unique function names.
+// A tool whose description or schema no longer matches the stored one is left out:
+// the user selected the stored version, not the one the server now describes. Bound
+// tools carry the stored risk level and approval, which decide whether a call is asked about.
+export async function resolveAgentTools(
+  servers: MCPAgentServer[],
+  selectedTools: string[]
+): Promise<AgentToolBinding[]> {
+  const selected = new Set(selectedTools);
+  const bindings: AgentToolBinding[] = [];
+  const usedNames = new Set<string>();
+
+  for (const server of servers) {
+    const serverToolIds = selectedTools.filter(id => id.startsWith(`${server.id}:`));
+    if (serverToolIds.length === 0) {
+      continue;
+    }
+
+    const result = await listMCPTools(server);
+    if (!result.success || !result.tools) {
+      log.warn('Skipping tools for server', { server: server.name, reason: result.error || 'no tools returned' });
+      continue;
+    }
+
+    for (const tool of result.tools) {
+      if (!selected.has(`${server.id}:${tool.name}`)) {
+        continue;
+      }
+      const reviewed = server.tools?.find(stored => stored.name === tool.name);
+      if (server.tools && (!reviewed || toolDefinitionChanged(reviewed, tool))) {
+        log.warn('Skipping tool that changed since it was selected', { server: server.name, tool: tool.name });
+        continue;
+      }
+
+      // Prefer the bare tool name; qualify it with the server id on collision
+      let functionName = sanitizeFunctionName(tool.name);
+      if (usedNames.has(functionName)) {
+        functionName = sanitizeFunctionName(`${server.id}__${tool.name}`);
+      }
+      usedNames.add(functionName);
+
+      bindings.push({
+        functionName,
+        server,
+        tool: reviewed
+          ? { ...tool, riskLevel: reviewed.riskLevel, riskReason: reviewed.riskReason, alwaysAllowed: reviewed.alwaysAllowed }
+          : withRiskLevel(tool),
+      });
+    }
+  }
+
+  return bindings;
+}
+
+// Run the model with tool access until it answers or the step limit is reached
+export async function runChatAgent({
+  provider,
+  model,
+  systemPrompt,
+  history = [],
+  userMessage,
+  tools,
+  options,
+  maxSteps = getMaxSteps(),
+  signal,
+  onEvent,
+  approveToolCall,
+  conversationId,
+  userId,
+}: AgentRunOptions): Promise<AgentRunResult> {
+  const bindingsByName = new Map(tools.map(binding => [binding.functionName, binding]));
+  const toolDefinitions = tools.map(toToolDefinition);
+  const toolCalls: MCPAgentToolCall[] = [];
+  const emit = onEvent || (() => {});
+
+  const messages: LLMMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...history,
+    { role: 'user', content: userMessage },
+  ];
+
+  // Content streamed so far, kept so a cancelled run can still be recorded
+  let content = '';
+  const onToken = (token: string) => {
+    content += token;
+    emit({ type: 'token', content: token });
+  };
+
+  try {
+    for (let step = 1; step <= maxSteps; step++) {
+      content = '';
+      const assistantMessage = await streamModelTurn(provider, {
+        model,
+        messages,
+        tools: toolDefinitions.length > 0 ? toolDefinitions : undefined,
+        options,
+      }, onToken, signal);
+      messages.push(assistantMessage);
+
+      if (!assistantMessage.toolCalls || assistantMessage.toolCalls.length === 0) {
+        return { content: assistantMessage.content, toolCalls, aborted: false };
+      }
+
+      for (const call of assistantMessage.toolCalls) {
+        if (signal?.aborted) {
+          return { content, toolCalls, aborted: true };
+        }
+
+        const record = await executeToolCall(bindingsByName, call.name, call.arguments, step, emit, approveToolCall);
+        toolCalls.push(record);
+        await recordToolCall(record, { actor: 'agent', conversationId, userId });
+        messages.push({
+          role: 'tool',
+          content: formatToolResultForModel(record),
+          toolCallId: call.id,
+          toolName: call.name,
+        });
+      }
+    }
+
+    // Step limit reached: ask for a final answer without offering any more tools
+    content = '';
+    const finalMessage = await streamModelTurn(provider, {
+      model,
+      messages: [
+        ...messages,
+        { role: 'system', content: 'Tool call limit reached. Answer the user with the information gathered so far.' },
+      ],
+      options,
+    }, onToken, signal);
+
+    return { content: finalMessage.content, toolCalls, aborted: false };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { content, toolCalls, aborted: true };
+    }
+    throw error;
+  }
+}
+
+// Stream one model response, relaying tokens and collecting any tool calls
+async function streamModelTurn(
+  provider: LLMProvider,
+  request: { model: string; messages: LLMMessage[]; tools?: LLMToolDefinition[]; options?: LLMChatOptions },
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<LLMMessage> {
+  const idleController = new AbortController();
+  let idleTimer: NodeJS.Timeout | undefined;
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => idleController.abort(), MODEL_IDLE_TIMEOUT_MS);
+  };
+
+  let content = '';
+  const toolCalls: LLMToolCall[] = [];
+
+  try {
+    resetIdleTimer();
+    const stream = provider.chat({
+      ...request,
+      signal: signal ? AbortSignal.any([signal, idleController.signal]) : idleController.signal,
+    });
+
+    for await (const chunk of stream) {
+      resetIdleTimer();
+      if (chunk.type === 'text') {
+        content += chunk.text;
+        onToken(chunk.text);
+      } else if (chunk.type === 'tool_call') {
+        toolCalls.push(chunk.toolCall);
+      }
+    }
+  } catch (error) {
+    if (idleController.signal.aborted && !signal?.aborted) {
+      throw new Error('Response timeout');
+    }
+    throw error;
+  } finally {
+    clearTimeout(idleTimer);
+  }
+
+  return {
+    role: 'assistant',
+    content,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+  };
+}
+
+async function executeToolCall(
+  bindingsByName: Map<string, AgentToolBinding>,
+  functionName: string,
+  args: Record<string, unknown> | undefined,
+  step: number,
+  emit: (event: AgentStreamEvent) => void,
+  approveToolCall?: ToolCallApprover
+): Promise<MCPAgentToolCall> {
+  const start = Date.now();
+  const binding = bindingsByName.get(functionName);
+  const pending: MCPAgentToolCall = {
+    id: randomUUID(),
+    step,
+    serverId: binding?.server.id || '',
+    serverName: binding?.server.name || '',
+    toolName: binding?.tool.name || functionName,
+    functionName,
+    arguments: args || {},
+    durationMs: 0,
+  };
+
+  if (!binding) {
+    const record = { ...pending, error: `Unknown tool: ${functionName}` };
+    emit({ type: 'tool_call_end', toolCall: record });
+    return record;
+  }
+
+  const { policy, approval } = approveToolCall ? await approveToolCall(pending, binding.tool) : {};
+  if (policy?.effect === 'deny' || approval?.status === 'denied') {
+    const error = policy?.effect === 'deny'
+      ? `Blocked by policy rule "${policy.ruleId}"`
+      : 'The user did not approve this tool call';
+    const record = { ...pending, policy, approval, error };
+    emit({ type: 'tool_call_end', toolCall: record });
+    return record;
+  }
+
+  emit({ type: 'tool_call_start', toolCall: { ...pending, policy, approval } });
+
+  const result: MCPToolResponse = await callMCPTool(binding.server, binding.tool.name, args || {});
+  const record: MCPAgentToolCall = {
+    ...pending,
+    policy,
+    approval,
+    result,
+    error: result.success ? undefined : result.error,
+    durationMs: Date.now() - start,
+  };
+
+  emit({ type: 'tool_call_end', toolCall: record });
+  return record;
+}
+
+// Render a tool call result as text for the model, capped at maxChars
+export function formatToolResultForModel(record: MCPAgentToolCall, maxChars = MAX_TOOL_RESULT_CHARS): string {
+  if (record.error) {
+    return `Error: ${record.error}`;
+  }
+
+  const content = record.result?.content || [];
+  const text = content
+    .map((block: any) => (block && block.type === 'text' ? block.text : JSON.stringify(block)))
+    .join('\n');
+  const prefixed = record.result?.isError ? `Error: ${text}` : text;
+
+  return prefixed.length > maxChars
+    ? prefixed.slice(0, maxChars) + '\n[truncated]'
+    : prefixed;
+}
+
+export function toToolDefinition(binding: AgentToolBinding): LLMToolDefinition {
+  return {
+    name: binding.functionName,
+    description: binding.tool.description || `${binding.tool.name} (${binding.server.name})`,
+    parameters: binding.tool.inputSchema || { type: 'object', properties: {} },
+  };
+}
+
+function sanitizeFunctionName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+}
+
+function getMaxSteps(): number {
+  const parsed = parseInt(process.env.AGENT_MAX_STEPS || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_STEPS;
+}
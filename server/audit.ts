@@ -0,0 +1,85 @@
+import type { MCPAgentToolCall, MCPAuditActor, MCPAuditDecision, MCPToolResponse } from "@shared/mcp-types";
+import type { ToolAuditEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'audit' });
+
+// Results are summarized, not stored whole: the arguments say what was done
+const MAX_RESULT_SUMMARY_CHARS = 500;
+
+export function auditDecision(call: Pick<MCPAgentToolCall, 'policy' | 'approval'>): MCPAuditDecision {
+  if (call.policy?.effect === 'deny') {
+    return 'blocked';
+  }
+  if (call.approval?.status === 'denied') {
+    return 'denied';
+  }
+  return call.approval?.status === 'approved' ? 'approved' : 'allowed';
+}
+
+// Text blocks are kept, other blocks are named by their type
+export function summarizeResult(result: MCPToolResponse | undefined): string | undefined {
+  if (!result?.content?.length) {
+    return result?.structuredContent ? JSON.stringify(result.structuredContent).slice(0, MAX_RESULT_SUMMARY_CHARS) : undefined;
+  }
+  const text = result.content
+    .map((block: any) => (block && block.type === 'text' ? block.text : `[${block?.type || 'content'}]`))
+    .join('\n');
+  return text.length > MAX_RESULT_SUMMARY_CHARS ? text.slice(0, MAX_RESULT_SUMMARY_CHARS) + '…' : text;
+}
+
+// Append a finished, denied or blocked tool call to the audit trail. A failed write is
+// logged and never fails the call itself.
+export async function recordToolCall(
+  call: MCPAgentToolCall,
+  { actor, conversationId, userId }: { actor: MCPAuditActor; conversationId?: string; userId?: string | null }
+): Promise<void> {
+  // The model asked for a tool it was not given; nothing was called
+  if (!call.serverId) {
+    return;
+  }
+  const resultSummary = summarizeResult(call.result);
+  try {
+    await storage.createAuditEntry({
+      actor,
+      userId: userId || null,
+      conversationId: conversationId || null,
+      serverId: call.serverId,
+      serverName: call.serverName,
+      toolName: call.toolName,
+      arguments: call.arguments,
+      resultSummary: resultSummary || null,
+      error: call.error || (call.result?.isError ? resultSummary || 'The tool reported an error' : null),
+      durationMs: call.durationMs,
+      decision: auditDecision(call),
+      policy: call.policy || null,
+      approval: call.approval || null,
+    });
+  } catch (error) {
+    log.error('Failed to write audit entry', { tool: call.toolName, serverId: call.serverId, error });
+  }
+}
+
+const CSV_COLUMNS: (keyof ToolAuditEntry)[] = [
+  'timestamp', 'actor', 'userId', 'conversationId', 'serverId', 'serverName', 'toolName',
+  'arguments', 'decision', 'durationMs', 'error', 'resultSummary',
+];
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined
+    ? ''
+    : value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from evaluating tool output as a formula
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toAuditCsv(entries: ToolAuditEntry[]): string {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
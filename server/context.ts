@@ -0,0 +1,183 @@
+import type { ChatMessage } from "@shared/schema";
+import type { MCPAgentToolCall } from "@shared/mcp-types";
+import type { LLMMessage, LLMToolDefinition } from "./llm";
+import { formatToolResultForModel } from "./agent";
+
+const DEFAULT_CONTEXT_TOKENS = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 1024;
+
+// Tool results from earlier turns are cut shorter than those of the current turn
+const HISTORY_TOOL_RESULT_CHARS = 1000;
+
+// Share of the history budget kept free for the summary of omitted turns
+const SUMMARY_BUDGET_RATIO = 0.15;
+
+// Length of each turn's excerpt in the summary
+const SUMMARY_EXCERPT_CHARS = 160;
+
+export interface ContextBudget {
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+export function getContextBudget(): ContextBudget {
+  return {
+    contextWindow: readPositiveInt('LLM_CONTEXT_TOKENS', DEFAULT_CONTEXT_TOKENS),
+    maxOutputTokens: readPositiveInt('LLM_MAX_OUTPUT_TOKENS', DEFAULT_MAX_OUTPUT_TOKENS),
+  };
+}
+
+// Rough token estimate (~4 characters per token), good enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateMessageTokens(message: LLMMessage): number {
+  const toolCallText = message.toolCalls
+    ? message.toolCalls.map(call => call.name + JSON.stringify(call.arguments)).join('')
+    : '';
+  // Small per-message overhead for role markers
+  return estimateTokens(message.content + toolCallText) + 4;
+}
+
+// Tokens left for earlier turns once the fixed parts of the request are accounted for
+export function getHistoryTokenBudget(
+  budget: ContextBudget,
+  systemPrompt: string,
+  userMessage: string,
+  tools: LLMToolDefinition[]
+): number {
+  const fixed = estimateTokens(systemPrompt)
+    + estimateTokens(userMessage)
+    + estimateTokens(JSON.stringify(tools));
+  return Math.max(0, budget.contextWindow - budget.maxOutputTokens - fixed);
+}
+
+// Convert stored chat history into model messages that fit in tokenBudget.
+// The newest turns are kept verbatim; older ones are condensed into a summary.
+// offeredTools are the function names the current request declares to the model.
+export function buildHistoryMessages(history: ChatMessage[], tokenBudget: number, offeredTools: string[] = []): LLMMessage[] {
+  const offered = new Set(offeredTools);
+  const turns = groupIntoTurns(history).map(turn => {
+    const messages = turn.flatMap(message => toLLMMessages(message, offered));
+    const tokens = messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+    return { source: turn, messages, tokens };
+  });
+
+  const verbatimBudget = Math.floor(tokenBudget * (1 - SUMMARY_BUDGET_RATIO));
+  let used = 0;
+  let firstKept = turns.length;
+  while (firstKept > 0 && used + turns[firstKept - 1].tokens <= verbatimBudget) {
+    firstKept--;
+    used += turns[firstKept].tokens;
+  }
+
+  const kept = turns.slice(firstKept).flatMap(turn => turn.messages);
+  const omitted = turns.slice(0, firstKept);
+  if (omitted.length === 0) {
+    return kept;
+  }
+
+  const summary = summarizeTurns(omitted.map(turn => turn.source), tokenBudget - used);
+  return summary ? [summary, ...kept] : kept;
+}
+
+// A turn starts with a user message and includes the replies that follow it
+function groupIntoTurns(history: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const message of history) {
+    if (message.type === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+// Calls stored before the function name was recorded were made under the tool name
+function functionNameOf(call: MCPAgentToolCall): string {
+  return call.functionName || call.toolName;
+}
+
+function toLLMMessages(message: ChatMessage, offered: Set<string>): LLMMessage[] {
+  if (message.type === 'user') {
+    return [{ role: 'user', content: message.content }];
+  }
+
+  // Replay each tool-calling step before the final answer. Providers reject tool calls
+  // to functions the request does not declare, so a step calling any function that is
+  // not offered now (or an unknown one) is replayed as text instead.
+  const toolCalls: MCPAgentToolCall[] = message.toolCalls || [];
+  const steps = Array.from(new Set(toolCalls.map(call => call.step))).sort((a, b) => a - b);
+  const messages: LLMMessage[] = [];
+  let text: string[] = [];
+
+  for (const step of steps) {
+    const stepCalls = toolCalls.filter(call => call.step === step);
+    if (!stepCalls.every(call => offered.has(functionNameOf(call)))) {
+      text.push(...stepCalls.map(call =>
+        `[Called ${functionNameOf(call)} with ${JSON.stringify(call.arguments)}]\n${formatToolResultForModel(call, HISTORY_TOOL_RESULT_CHARS)}`
+      ));
+      continue;
+    }
+    if (text.length > 0) {
+      messages.push({ role: 'assistant', content: text.join('\n\n') });
+      text = [];
+    }
+    messages.push({
+      role: 'assistant',
+      content: '',
+      toolCalls: stepCalls.map(call => ({ id: call.id, name: functionNameOf(call), arguments: call.arguments })),
+    });
+    for (const call of stepCalls) {
+      messages.push({
+        role: 'tool',
+        content: formatToolResultForModel(call, HISTORY_TOOL_RESULT_CHARS),
+        toolCallId: call.id,
+        toolName: functionNameOf(call),
+      });
+    }
+  }
+
+  if (message.content) {
+    text.push(message.content);
+  }
+  if (text.length > 0) {
+    messages.push({ role: 'assistant', content: text.join('\n\n') });
+  }
+  return messages;
+}
+
+// Extractive summary of omitted turns, dropping the oldest lines until it fits
+function summarizeTurns(turns: ChatMessage[][], tokenBudget: number): LLMMessage | null {
+  const header = 'Summary of earlier conversation (older turns were condensed to fit the context window):';
+  const lines = turns.flatMap(turn => turn.map(message => {
+    const speaker = message.type === 'user' ? 'User' : 'Assistant';
+    const tools = message.toolCalls && message.toolCalls.length > 0
+      ? ` [used tools: ${Array.from(new Set(message.toolCalls.map(call => call.toolName))).join(', ')}]`
+      : '';
+    return `- ${speaker}: ${excerpt(message.content)}${tools}`;
+  }));
+
+  while (lines.length > 0 && estimateTokens([header, ...lines].join('\n')) > tokenBudget) {
+    lines.shift();
+  }
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return { role: 'system', content: [header, ...lines].join('\n') };
+}
+
+function excerpt(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > SUMMARY_EXCERPT_CHARS
+    ? singleLine.slice(0, SUMMARY_EXCERPT_CHARS) + '…'
+    : singleLine;
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
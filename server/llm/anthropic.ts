@@ -0,0 +1,132 @@
+import type { LLMProvider, LLMChatRequest, LLMStreamChunk, LLMMessage } from "./types";
+import { ensureOk, readServerSentEvents, parseToolArguments } from "./stream";
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
+
+export function getAnthropicBaseUrl(): string {
+  return (process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/+$/, '');
+}
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  get defaultModel() {
+    return process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest';
+  },
+
+  isConfigured: () => Boolean(process.env.ANTHROPIC_API_KEY),
+
+  async *chat({ model, messages, tools, options, signal }: LLMChatRequest): AsyncIterable<LLMStreamChunk> {
+    const system = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const response = await fetch(`${getAnthropicBaseUrl()}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      signal,
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages: toAnthropicMessages(messages),
+        tools: tools && tools.length > 0
+          ? tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+          : undefined,
+        stream: true,
+        max_tokens: options?.maxTokens || parseInt(process.env.ANTHROPIC_MAX_TOKENS || '', 10) || DEFAULT_MAX_TOKENS,
+        temperature: options?.temperature,
+        top_p: options?.topP,
+        // The API rejects stop sequences that are only whitespace
+        stop_sequences: options?.stop?.filter(sequence => sequence.trim() !== ''),
+      }),
+    });
+    await ensureOk(response, 'Anthropic');
+
+    // tool_use blocks stream their input as partial JSON until the block stops
+    const toolBlocks = new Map<number, { id: string; name: string; input: string }>();
+    let stopReason: string | undefined;
+
+    for await (const { event, data } of readServerSentEvents(response.body!)) {
+      const payload = JSON.parse(data);
+
+      switch (event) {
+        case 'content_block_start':
+          if (payload.content_block?.type === 'tool_use') {
+            toolBlocks.set(payload.index, { id: payload.content_block.id, name: payload.content_block.name, input: '' });
+          }
+          break;
+        case 'content_block_delta':
+          if (payload.delta?.type === 'text_delta') {
+            yield { type: 'text', text: payload.delta.text };
+          } else if (payload.delta?.type === 'input_json_delta') {
+            const block = toolBlocks.get(payload.index);
+            if (block) {
+              block.input += payload.delta.partial_json;
+            }
+          }
+          break;
+        case 'content_block_stop': {
+          const block = toolBlocks.get(payload.index);
+          if (block) {
+            toolBlocks.delete(payload.index);
+            yield { type: 'tool_call', toolCall: { id: block.id, name: block.name, arguments: parseToolArguments(block.input) } };
+          }
+          break;
+        }
+        case 'message_delta':
+          stopReason = payload.delta?.stop_reason || stopReason;
+          break;
+        case 'error':
+          throw new Error(`Anthropic stream error: ${payload.error?.message || data}`);
+      }
+    }
+
+    yield { type: 'done', stopReason };
+  },
+};
+
+// Convert to Messages API turns: tool results become user turns of tool_result blocks
+function toAnthropicMessages(messages: LLMMessage[]): Array<{ role: 'user' | 'assistant'; content: unknown }> {
+  const result: Array<{ role: 'user' | 'assistant'; content: any }> = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = result[result.length - 1];
+      // Consecutive tool results must share one user turn
+      if (previous && previous.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+      continue;
+    }
+
+    result.push({ role: message.role, content: message.content });
+  }
+
+  return result;
+}
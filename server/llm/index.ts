@@ -0,0 +1,57 @@
+import type { LLMProvider, LLMModelInfo } from "./types";
+import { discoverModels } from "./models";
+import { ollamaProvider } from "./ollama";
+import { openAIProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+
+export * from "./types";
+
+export const providers: LLMProvider[] = [ollamaProvider, openAIProvider, anthropicProvider];
+
+// Model ids sent by older clients, mapped to each provider's default model
+const LEGACY_MODEL_IDS: Record<string, string> = {
+  'ollama-llama3.2': 'ollama',
+  'openai-gpt4': 'openai',
+  'anthropic-claude': 'anthropic',
+};
+
+export interface ResolvedModel {
+  provider: LLMProvider;
+  model: string;
+}
+
+export function getProvider(id: string): LLMProvider | undefined {
+  return providers.find(provider => provider.id === id);
+}
+
+// Model ids have the form "<provider>:<model>", e.g. "ollama:llama3.2:1b"
+export function resolveModel(modelId?: string): ResolvedModel {
+  if (!modelId) {
+    return { provider: ollamaProvider, model: ollamaProvider.defaultModel };
+  }
+
+  const legacyProvider = LEGACY_MODEL_IDS[modelId];
+  if (legacyProvider) {
+    const provider = getProvider(legacyProvider)!;
+    return { provider, model: provider.defaultModel };
+  }
+
+  const separator = modelId.indexOf(':');
+  const providerId = separator === -1 ? modelId : modelId.slice(0, separator);
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw new Error(`Unknown model provider: ${providerId}`);
+  }
+
+  const model = separator === -1 ? '' : modelId.slice(separator + 1);
+  return { provider, model: model || provider.defaultModel };
+}
+
+export function toModelId(provider: LLMProvider, model: string): string {
+  return `${provider.id}:${model}`;
+}
+
+// Models offered by every configured provider, with reachability and capabilities
+export function listAvailableModels(refresh = false): Promise<LLMModelInfo[]> {
+  return discoverModels(providers, refresh);
+}
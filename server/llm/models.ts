@@ -0,0 +1,87 @@
+import type { LLMProvider, LLMModelInfo, LLMModelCapabilities, DiscoveredModel } from "./types";
+import { logger } from "../logger";
+
+const log = logger.child({ source: 'llm' });
+
+// How long a discovered model list is reused before providers are queried again
+const DEFAULT_CACHE_TTL_MS = 60000;
+
+// Upper bound on a single provider's discovery request
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+let cache: { models: LLMModelInfo[]; expiresAt: number } | null = null;
+let pending: Promise<LLMModelInfo[]> | null = null;
+
+// Live model list across all configured providers, cached between calls
+export async function discoverModels(providers: LLMProvider[], refresh = false): Promise<LLMModelInfo[]> {
+  if (!refresh && cache && cache.expiresAt > Date.now()) {
+    return cache.models;
+  }
+
+  // Share one discovery run between concurrent callers
+  if (!pending) {
+    pending = Promise.all(providers.filter(provider => provider.isConfigured()).map(discoverProviderModels))
+      .then(results => {
+        const models = results.flat();
+        cache = { models, expiresAt: Date.now() + getCacheTtl() };
+        return models;
+      })
+      .finally(() => {
+        pending = null;
+      });
+  }
+
+  return pending;
+}
+
+async function discoverProviderModels(provider: LLMProvider): Promise<LLMModelInfo[]> {
+  if (!provider.listModels) {
+    return [toModelInfo(provider, { name: provider.defaultModel }, true)];
+  }
+
+  try {
+    const discovered = await provider.listModels(AbortSignal.timeout(DISCOVERY_TIMEOUT_MS));
+    if (discovered.length === 0) {
+      return [toModelInfo(provider, { name: provider.defaultModel }, false, 'No models installed')];
+    }
+    return discovered.map(model => toModelInfo(provider, model, true));
+  } catch (error) {
+    log.warn('Model discovery failed', { provider: provider.name, error: error instanceof Error ? error.message : error });
+    return [toModelInfo(provider, { name: provider.defaultModel }, false, `${provider.name} is unreachable`)];
+  }
+}
+
+function toModelInfo(provider: LLMProvider, model: DiscoveredModel, available: boolean, error?: string): LLMModelInfo {
+  return {
+    id: `${provider.id}:${model.name}`,
+    name: `${model.name} (${provider.name})`,
+    provider: provider.id,
+    capabilities: model.capabilities || guessCapabilities(provider, model.name),
+    available,
+    ...(error && { error }),
+  };
+}
+
+// Best-effort capability detection for providers that do not report it
+function guessCapabilities(provider: LLMProvider, modelName: string): LLMModelCapabilities {
+  const name = modelName.toLowerCase();
+
+  if (provider.id === 'anthropic') {
+    return { tools: true, vision: true };
+  }
+  if (provider.id === 'openai') {
+    return {
+      tools: /gpt-4|gpt-3\.5-turbo|gpt-5|^o\d/.test(name),
+      vision: /gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|vision|^o\d/.test(name),
+    };
+  }
+  return {
+    tools: /llama3\.[1-9]|qwen|mistral|command-r|firefunction|hermes/.test(name),
+    vision: /llava|vision|bakllava|moondream|-vl|minicpm-v/.test(name),
+  };
+}
+
+function getCacheTtl(): number {
+  const parsed = parseInt(process.env.MODELS_CACHE_TTL_MS || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_CACHE_TTL_MS;
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+import { Ollama, type Message } from "ollama";
+import type { LLMProvider, LLMChatRequest, LLMStreamChunk, LLMMessage, DiscoveredModel } from "./types";
+
+export function getOllamaHost(): string {
+  return process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434';
+}
+
+export const ollamaProvider: LLMProvider = {
+  id: 'ollama',
+  name: 'Ollama',
+  get defaultModel() {
+    return process.env.LOCAL_LLM_MODEL || 'llama3.2:1b';
+  },
+
+  // A local Ollama needs no credentials
+  isConfigured: () => true,
+
+  async *chat({ model, messages, tools, options, signal }: LLMChatRequest): AsyncIterable<LLMStreamChunk> {
+    const ollama = new Ollama({
+      host: getOllamaHost(),
+      fetch: (input, init) => fetch(input, {
+        ...init,
+        signal: signal && init?.signal ? AbortSignal.any([init.signal, signal]) : (signal || init?.signal),
+      }),
+    });
+
+    const stream = await ollama.chat({
+      model,
+      messages: messages.map(toOllamaMessage),
+      tools: tools?.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      })),
+      stream: true,
+      options: {
+        temperature: options?.temperature,
+        top_p: options?.topP,
+        num_predict: options?.maxTokens,
+        num_ctx: options?.contextWindow,
+        stop: options?.stop,
+      },
+    });
+
+    let stopReason: string | undefined;
+    for await (const chunk of stream) {
+      if (chunk.message.content) {
+        yield { type: 'text', text: chunk.message.content };
+      }
+      for (const call of chunk.message.tool_calls || []) {
+        yield {
+          type: 'tool_call',
+          toolCall: { id: randomUUID(), name: call.function.name, arguments: call.function.arguments || {} },
+        };
+      }
+      if (chunk.done) {
+        stopReason = chunk.done_reason;
+      }
+    }
+
+    yield { type: 'done', stopReason };
+  },
+
+  // Installed models from /api/tags, with capabilities from /api/show when the server reports them
+  async listModels(signal: AbortSignal): Promise<DiscoveredModel[]> {
+    const ollama = new Ollama({
+      host: getOllamaHost(),
+      fetch: (input, init) => fetch(input, { ...init, signal }),
+    });
+
+    const { models } = await ollama.list();
+    return Promise.all(models.map(async (model) => {
+      const capabilities = await ollama.show({ model: model.name })
+        .then(info => info.capabilities)
+        .catch(() => undefined);
+
+      return {
+        name: model.name,
+        capabilities: Array.isArray(capabilities)
+          ? { tools: capabilities.includes('tools'), vision: capabilities.includes('vision') }
+          : undefined,
+      };
+    }));
+  },
+};
+
+function toOllamaMessage(message: LLMMessage): Message {
+  if (message.role === 'tool') {
+    return { role: 'tool', content: message.content, tool_name: message.toolName };
+  }
+  return {
+    role: message.role,
+    content: message.content,
+    tool_calls: message.toolCalls?.map(call => ({
+      function: { name: call.name, arguments: call.arguments },
+    })),
+  };
+}
@@ -0,0 +1,134 @@
+import type { LLMProvider, LLMChatRequest, LLMStreamChunk, LLMMessage, LLMToolCall, DiscoveredModel } from "./types";
+import { ensureOk, readServerSentEvents, parseToolArguments } from "./stream";
+
+// Model ids from /models that cannot be used for chat completions
+const NON_CHAT_MODEL_PATTERN = /embed|whisper|tts|dall-e|moderation|transcribe/i;
+
+// Reasoning models (o1, o3, o4-mini, ...) take max_completion_tokens and reject stop
+// sequences and sampling settings
+const REASONING_MODEL_PATTERN = /^o\d/i;
+
+function getHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.OPENAI_API_KEY) {
+    headers['Authorization'] = `Bearer ${process.env.OPENAI_API_KEY}`;
+  }
+  return headers;
+}
+
+export function getOpenAIBaseUrl(): string {
+  return (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+}
+
+// Works with OpenAI and any server exposing the same /chat/completions API
+export const openAIProvider: LLMProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  get defaultModel() {
+    return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  },
+
+  // A custom base URL (e.g. a local server) may not need an API key
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL),
+
+  async *chat({ model, messages, tools, options, signal }: LLMChatRequest): AsyncIterable<LLMStreamChunk> {
+    const reasoning = REASONING_MODEL_PATTERN.test(model);
+    const response = await fetch(`${getOpenAIBaseUrl()}/chat/completions`, {
+      method: 'POST',
+      headers: getHeaders(),
+      signal,
+      body: JSON.stringify({
+        model,
+        messages: messages.map(toOpenAIMessage),
+        tools: tools && tools.length > 0
+          ? tools.map(tool => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+            }))
+          : undefined,
+        stream: true,
+        ...(reasoning
+          ? { max_completion_tokens: options?.maxTokens }
+          : {
+              temperature: options?.temperature,
+              top_p: options?.topP,
+              max_tokens: options?.maxTokens,
+              stop: options?.stop,
+            }),
+      }),
+    });
+    await ensureOk(response, 'OpenAI');
+
+    // Tool call fragments arrive keyed by index and are assembled until the stream ends
+    const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>();
+    let stopReason: string | undefined;
+
+    for await (const { data } of readServerSentEvents(response.body!)) {
+      if (data === '[DONE]') break;
+
+      const payload = JSON.parse(data);
+      if (payload.error) {
+        throw new Error(`OpenAI stream error: ${payload.error.message || JSON.stringify(payload.error)}`);
+      }
+
+      const choice = payload.choices?.[0];
+      if (!choice) continue;
+
+      if (choice.delta?.content) {
+        yield { type: 'text', text: choice.delta.content };
+      }
+      for (const fragment of choice.delta?.tool_calls || []) {
+        const pending = pendingCalls.get(fragment.index) || { id: '', name: '', arguments: '' };
+        pending.id = fragment.id || pending.id;
+        pending.name += fragment.function?.name || '';
+        pending.arguments += fragment.function?.arguments || '';
+        pendingCalls.set(fragment.index, pending);
+      }
+      if (choice.finish_reason) {
+        stopReason = choice.finish_reason;
+      }
+    }
+
+    for (const [index, pending] of Array.from(pendingCalls.entries()).sort(([a], [b]) => a - b)) {
+      const toolCall: LLMToolCall = {
+        id: pending.id || `call_${index}`,
+        name: pending.name,
+        arguments: parseToolArguments(pending.arguments),
+      };
+      yield { type: 'tool_call', toolCall };
+    }
+
+    yield { type: 'done', stopReason };
+  },
+
+  // The /models listing carries no capability data, so capabilities are inferred from the id
+  async listModels(signal: AbortSignal): Promise<DiscoveredModel[]> {
+    const response = await fetch(`${getOpenAIBaseUrl()}/models`, { headers: getHeaders(), signal });
+    await ensureOk(response, 'OpenAI');
+
+    const payload = await response.json();
+    return (payload.data || [])
+      .map((model: { id: string }) => model.id)
+      .filter((id: string) => !NON_CHAT_MODEL_PATTERN.test(id))
+      .sort()
+      .map((id: string) => ({ name: id }));
+  },
+};
+
+function toOpenAIMessage(message: LLMMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
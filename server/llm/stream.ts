@@ -0,0 +1,78 @@
+// Helpers for reading streamed HTTP responses from LLM providers
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Throw a descriptive error for non-2xx provider responses
+export async function ensureOk(response: Response, provider: string): Promise<void> {
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`${provider} request failed (${response.status}): ${text || response.statusText}`);
+  }
+}
+
+// Yield each line of a streamed response body
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    }
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Yield Server-Sent Events from a streamed response body
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  let event = 'message';
+  let dataLines: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        yield { event, data: dataLines.join('\n') };
+      }
+      event = 'message';
+      dataLines = [];
+    } else if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length > 0) {
+    yield { event, data: dataLines.join('\n') };
+  }
+}
+
+// Parse JSON tool arguments, tolerating empty or malformed input from the model
+export function parseToolArguments(raw: string): Record<string, unknown> {
+  if (!raw.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,77 @@
+// Provider-agnostic chat types shared by every LLM backend
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Set on assistant messages that requested tools
+  toolCalls?: LLMToolCall[];
+  // Set on tool messages to link the result back to its call
+  toolCallId?: string;
+  toolName?: string;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMChatOptions {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  contextWindow?: number;
+  stop?: string[];
+}
+
+export interface LLMChatRequest {
+  model: string;
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  options?: LLMChatOptions;
+  signal?: AbortSignal;
+}
+
+// Normalized streaming output: text deltas, then complete tool calls, then done
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; toolCall: LLMToolCall }
+  | { type: 'done'; stopReason?: string };
+
+export interface LLMModelCapabilities {
+  tools: boolean;
+  vision: boolean;
+}
+
+export interface LLMModelInfo {
+  id: string;
+  name: string;
+  provider: string;
+  capabilities: LLMModelCapabilities;
+  // False when the provider could not be reached during discovery
+  available: boolean;
+  error?: string;
+}
+
+// A model reported by a provider's own model listing
+export interface DiscoveredModel {
+  name: string;
+  capabilities?: LLMModelCapabilities;
+}
+
+export interface LLMProvider {
+  id: string;
+  name: string;
+  // Read lazily so values loaded from .env at startup are picked up
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  chat(request: LLMChatRequest): AsyncIterable<LLMStreamChunk>;
+  // Providers without a model listing only offer their default model
+  listModels?(signal: AbortSignal): Promise<DiscoveredModel[]>;
+}
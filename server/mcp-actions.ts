@@ -1,58 +1,80 @@
 import { MCPServerClient } from "./mcp-client";
-import { MCPHttpConfig, MCPTool, MCPToolResponse, MCPPrompt, MCPResource } from "@shared/mcp-types";
+import { withSession, subscribeResource, unsubscribeResource, type MCPPoolServer } from "./mcp-pool";
+import { MCPServerConfig, MCPHttpTransport, MCPTool, MCPToolResponse, MCPPrompt, MCPPromptMessage, MCPResource, MCPResourceTemplate, MCPResourceContents, isStdioConfig } from "@shared/mcp-types";
+import { logger } from "./logger";
 
-// Server Actions for MCP operations
-export async function testMCPConnection(config: MCPHttpConfig): Promise<{
+const log = logger.child({ source: 'mcp' });
+
+// Server Actions for MCP operations. Registered servers are reached through the
+// shared session pool; testing a connection uses a throwaway client instead.
+export async function testMCPConnection(config: MCPServerConfig): Promise<{
   success: boolean;
   tools?: MCPTool[];
+  // Which HTTP transport the server accepted, to be saved with its config
+  httpTransport?: MCPHttpTransport;
+  // The server wants an OAuth sign-in; it can be saved and signed in to from its tab
+  authRequired?: boolean;
   error?: string;
 }> {
   let client: MCPServerClient | null = null;
+  // What to call the server in messages: its URL, or the command that starts it
+  const target = isStdioConfig(config) ? config.command : config.url;
 
   try {
-    console.log('Testing MCP connection with config:', config);
-
-    // Validate HTTP configuration
-    if (!config.url || config.url.trim() === '') {
-      return {
-        success: false,
-        error: 'URL is required for HTTP transport'
-      };
-    }
+    log.debug('Testing MCP connection', { config });
+
+    if (isStdioConfig(config)) {
+      // Validate stdio configuration
+      if (!config.command || config.command.trim() === '') {
+        return {
+          success: false,
+          error: 'Command is required for stdio transport'
+        };
+      }
+    } else {
+      // Validate HTTP configuration
+      if (!config.url || config.url.trim() === '') {
+        return {
+          success: false,
+          error: 'URL is required for HTTP transport'
+        };
+      }
 
-    try {
-      new URL(config.url);
-    } catch {
-      return {
-        success: false,
-        error: `Invalid URL format: ${config.url}`
-      };
+      try {
+        new URL(config.url);
+      } catch {
+        return {
+          success: false,
+          error: `Invalid URL format: ${config.url}`
+        };
+      }
     }
 
     // Create and connect client
     client = new MCPServerClient(config);
     await client.connect();
 
-    console.log('MCP client connected, testing tools...');
+    log.debug('MCP client connected, testing tools');
 
     // Test connection by listing tools
     const tools = await client.listTools();
 
-    console.log('Connection test successful, found tools:', tools);
+    log.info('Connection test successful', { target, transport: client.httpTransport, tools: tools.map(tool => tool.name) });
 
     return {
       success: true,
-      tools: tools
+      tools: tools,
+      ...(client.httpTransport && { httpTransport: client.httpTransport })
     };
 
   } catch (error) {
-    console.error('Connection test failed:', error);
+    log.error('Connection test failed', { target, error });
 
     let errorMessage = 'Unknown connection error';
 
     if (error instanceof Error) {
       if (error.message.includes('Failed to fetch')) {
-        errorMessage = `Cannot reach server at ${config.url}. Please check:
+        errorMessage = `Cannot reach server at ${target}. Please check:
         • Server is running and accessible
         • URL is correct (including protocol)
         • No CORS restrictions
@@ -60,7 +82,7 @@ export async function testMCPConnection(config: MCPHttpConfig): Promise<{
       } else if (error.message.includes('CORS')) {
         errorMessage = `CORS error: The server needs to allow requests from this domain.`;
       } else if (error.message.includes('NetworkError')) {
-        errorMessage = `Network error: Cannot connect to ${config.url}. Check if the server is running.`;
+        errorMessage = `Network error: Cannot connect to ${target}. Check if the server is running.`;
       } else {
         errorMessage = error.message;
       }
@@ -68,6 +90,7 @@ export async function testMCPConnection(config: MCPHttpConfig): Promise<{
 
     return {
       success: false,
+      ...(client?.authRequired && { authRequired: true }),
       error: errorMessage
     };
   } finally {
@@ -76,169 +99,184 @@ export async function testMCPConnection(config: MCPHttpConfig): Promise<{
       try {
         await client.disconnect();
       } catch (disconnectError) {
-        console.warn('Error disconnecting test client:', disconnectError);
+        log.warn('Error disconnecting test client', { error: disconnectError });
       }
     }
   }
 }
 
-export async function callMCPToolWithConfig(
-  config: MCPHttpConfig,
+export async function callMCPTool(
+  server: MCPPoolServer,
   toolName: string,
   arguments_: Record<string, unknown> = {}
 ): Promise<MCPToolResponse> {
-  let client: MCPServerClient | null = null;
-
   try {
-    // Create and connect client
-    client = new MCPServerClient(config);
-    await client.connect();
-
-    const result = await client.callTool({
+    // Not retried: the call may already have had side effects
+    return await withSession(server, client => client.callTool({
       name: toolName,
       arguments: arguments_
-    });
-
-    return result;
-
+    }));
   } catch (error) {
-    console.error(`Failed to call tool ${toolName}:`, error);
+    log.error('Failed to call tool', { serverId: server.id, toolName, error });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Tool call failed'
     };
-  } finally {
-    // Always disconnect stateless client
-    if (client) {
-      try {
-        await client.disconnect();
-      } catch (error) {
-        console.error('Error disconnecting client:', error);
-      }
-    }
   }
 }
 
-export async function listMCPToolsWithConfig(config: MCPHttpConfig): Promise<{
+export async function listMCPTools(server: MCPPoolServer): Promise<{
   success: boolean;
   tools?: MCPTool[];
   error?: string;
 }> {
-  let client: MCPServerClient | null = null;
-
   try {
-    console.log(`Creating fresh connection to list tools`);
-
-    // Validate configuration
-    if (!config.url || config.url.trim() === '') {
-      return {
-        success: false,
-        error: 'URL is required for HTTP transport'
-      };
-    }
-
-    try {
-      new URL(config.url);
-    } catch {
-      return {
-        success: false,
-        error: `Invalid URL format: ${config.url}`
-      };
-    }
-
-    // Create fresh client and connect
-    client = new MCPServerClient(config);
-    await client.connect();
-
-    // List tools
-    const tools = await client.listTools();
+    const tools = await withSession(server, client => client.listTools(), { retry: true });
 
     return {
       success: true,
       tools: tools
     };
   } catch (error) {
-    console.error(`Failed to list tools:`, error);
+    log.error('Failed to list tools', { serverId: server.id, error });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'List tools failed'
     };
-  } finally {
-    // Always disconnect the fresh client
-    if (client) {
-      try {
-        await client.disconnect();
-      } catch (error) {
-        console.error('Error disconnecting client:', error);
-      }
-    }
   }
 }
 
-export async function listMCPPromptsWithConfig(config: MCPHttpConfig): Promise<{
+export async function listMCPPrompts(server: MCPPoolServer): Promise<{
   success: boolean;
   prompts?: MCPPrompt[];
   error?: string;
 }> {
-  let client: MCPServerClient | null = null;
-
   try {
-    client = new MCPServerClient(config);
-    await client.connect();
-
-    const prompts = await client.listPrompts();
+    const prompts = await withSession(server, client => client.listPrompts(), { retry: true });
 
     return {
       success: true,
       prompts: prompts
     };
   } catch (error) {
-    console.error(`Failed to list prompts:`, error);
+    log.error('Failed to list prompts', { serverId: server.id, error });
     return {
       success: false,
       error: error instanceof Error ? error.message : 'List prompts failed'
     };
-  } finally {
-    if (client) {
-      try {
-        await client.disconnect();
-      } catch (error) {
-        console.error('Error disconnecting client:', error);
-      }
-    }
   }
 }
 
-export async function listMCPResourcesWithConfig(config: MCPHttpConfig): Promise<{
+export async function getMCPPrompt(
+  server: MCPPoolServer,
+  name: string,
+  arguments_: Record<string, string> = {}
+): Promise<{
+  success: boolean;
+  description?: string;
+  messages?: MCPPromptMessage[];
+  error?: string;
+}> {
+  try {
+    const prompt = await withSession(server, client => client.getPrompt({
+      name,
+      arguments: arguments_
+    }), { retry: true });
+
+    return {
+      success: true,
+      ...prompt
+    };
+  } catch (error) {
+    log.error('Failed to get prompt', { serverId: server.id, prompt: name, error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Get prompt failed'
+    };
+  }
+}
+
+export async function listMCPResources(server: MCPPoolServer, cursor?: string): Promise<{
   success: boolean;
   resources?: MCPResource[];
+  nextCursor?: string;
   error?: string;
 }> {
-  let client: MCPServerClient | null = null;
+  try {
+    const page = await withSession(server, client => client.listResources(cursor), { retry: true });
+
+    return {
+      success: true,
+      ...page
+    };
+  } catch (error) {
+    log.error('Failed to list resources', { serverId: server.id, error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'List resources failed'
+    };
+  }
+}
 
+export async function listMCPResourceTemplates(server: MCPPoolServer, cursor?: string): Promise<{
+  success: boolean;
+  resourceTemplates?: MCPResourceTemplate[];
+  nextCursor?: string;
+  error?: string;
+}> {
   try {
-    client = new MCPServerClient(config);
-    await client.connect();
+    const page = await withSession(server, client => client.listResourceTemplates(cursor), { retry: true });
 
-    const resources = await client.listResources();
+    return {
+      success: true,
+      ...page
+    };
+  } catch (error) {
+    log.error('Failed to list resource templates', { serverId: server.id, error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'List resource templates failed'
+    };
+  }
+}
+
+export async function readMCPResource(server: MCPPoolServer, uri: string): Promise<{
+  success: boolean;
+  contents?: MCPResourceContents[];
+  error?: string;
+}> {
+  try {
+    const { contents } = await withSession(server, client => client.readResource({ uri }), { retry: true });
 
     return {
       success: true,
-      resources: resources
+      contents
     };
   } catch (error) {
-    console.error(`Failed to list resources:`, error);
+    log.error('Failed to read resource', { serverId: server.id, uri, error });
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'List resources failed'
+      error: error instanceof Error ? error.message : 'Read resource failed'
     };
-  } finally {
-    if (client) {
-      try {
-        await client.disconnect();
-      } catch (error) {
-        console.error('Error disconnecting client:', error);
-      }
-    }
   }
-}
\ No newline at end of file
+}
+
+// Subscriptions are renewed on new sessions for as long as someone watches the server
+export async function setMCPResourceSubscription(server: MCPPoolServer, uri: string, subscribed: boolean): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    await (subscribed ? subscribeResource(server, uri) : unsubscribeResource(server, uri));
+
+    return {
+      success: true
+    };
+  } catch (error) {
+    log.error('Failed to change resource subscription', { serverId: server.id, uri, subscribed, error });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Subscription failed'
+    };
+  }
+}
@@ -1,54 +1,266 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
-import { MCPHttpConfig, MCPTool, MCPToolResponse, MCPPrompt, MCPResource } from "@shared/mcp-types";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import type { Transport, FetchLike } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { UnauthorizedError, type OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  ErrorCode,
+  McpError,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { MCPServerConfig, MCPHttpConfig, MCPHttpTransport, MCPStdioConfig, MCPTool, MCPToolAnnotations, MCPToolResponse, MCPContentBlock, MCPPrompt, MCPPromptMessage, MCPResource, MCPResourceTemplate, MCPResourceContents, MCPLiveUpdates, MCPServerNotification, isStdioConfig, DEFAULT_API_KEY_HEADER } from "@shared/mcp-types";
+import { logger, redact } from "./logger";
+
+const log = logger.child({ source: 'mcp' });
+
+// Lines of stderr kept from a stdio server process
+const STDERR_LINES = 50;
+
+// Launching stdio servers runs commands on this machine for anyone who can reach the app,
+// so it is off unless MCP_STDIO_ENABLED=true. MCP_STDIO_COMMANDS (comma-separated) restricts
+// which commands may run.
+export function getStdioCommandError(command: string): string | undefined {
+  if (process.env.MCP_STDIO_ENABLED !== 'true') {
+    return 'stdio MCP servers are disabled on this server (set MCP_STDIO_ENABLED=true)';
+  }
+
+  const allowed = (process.env.MCP_STDIO_COMMANDS || '').split(',').map(name => name.trim()).filter(Boolean);
+  if (allowed.length > 0 && !allowed.includes(command)) {
+    return `Command "${command}" is not in MCP_STDIO_COMMANDS`;
+  }
+  return undefined;
+}
+
+// Custom headers plus the one carrying the server's secret, which replaces a
+// custom header of the same name
+function buildRequestHeaders(config: MCPHttpConfig): Record<string, string> {
+  const headers: Record<string, string> = { ...config.headers };
+  const setHeader = (name: string, value: string) => {
+    for (const existing of Object.keys(headers)) {
+      if (existing.toLowerCase() === name.toLowerCase()) {
+        delete headers[existing];
+      }
+    }
+    headers[name] = value;
+  };
+
+  const secret = config.bearerToken;
+  switch (config.authScheme ?? (secret ? 'bearer' : 'none')) {
+    case 'bearer':
+      if (secret) {
+        setHeader('Authorization', `Bearer ${secret}`);
+      }
+      break;
+    case 'basic':
+      setHeader('Authorization', `Basic ${Buffer.from(`${config.username || ''}:${secret || ''}`).toString('base64')}`);
+      break;
+    case 'api-key':
+      if (secret) {
+        setHeader(config.apiKeyHeader || DEFAULT_API_KEY_HEADER, secret);
+      }
+      break;
+  }
+  return headers;
+}
 
 // Server-side MCP client manager
 export class MCPServerClient {
   private client: Client;
-  private transport: StreamableHTTPClientTransport | null = null;
+  private transport: Transport | null = null;
   private isConnected = false;
+  private stderrLines: string[] = [];
+  private negotiatedTransport?: MCPHttpTransport;
+  private authChallenge?: string;
+
+  // Called once when an open session is closed or found to be broken
+  onclose?: () => void;
+  // Called for change notifications from the server
+  onnotification?: (notification: MCPServerNotification) => void;
+
+  // authProvider supplies OAuth tokens for servers the user has signed in to
+  constructor(private config: MCPServerConfig, private options: { authProvider?: OAuthClientProvider } = {}) {
+    this.client = this.createClient();
+  }
 
-  constructor(private config: MCPHttpConfig) {
-    this.client = new Client({
+  private createClient(): Client {
+    const client = new Client({
       name: "mcp-client",
       version: "1.0.0"
     });
+    client.onclose = () => this.markClosed();
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      this.onnotification?.({ type: 'resource-updated', uri: notification.params.uri });
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      this.onnotification?.({ type: 'list-changed', list: 'resources' });
+    });
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      this.onnotification?.({ type: 'list-changed', list: 'tools' });
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+      this.onnotification?.({ type: 'list-changed', list: 'prompts' });
+    });
+    return client;
+  }
+
+  get connected(): boolean {
+    return this.isConnected;
   }
 
-  private createTransport(): StreamableHTTPClientTransport {
-    const requestInit: RequestInit = {};
+  // The HTTP transport the server accepted, once connected
+  get httpTransport(): MCPHttpTransport | undefined {
+    return this.negotiatedTransport;
+  }
 
-    if (this.config.bearerToken) {
-      requestInit.headers = {
-        'Authorization': `Bearer ${this.config.bearerToken}`,
-      };
+  // What the server said it notifies about, once connected
+  get liveUpdates(): MCPLiveUpdates {
+    const capabilities = this.client.getServerCapabilities();
+    return {
+      tools: Boolean(capabilities?.tools?.listChanged),
+      prompts: Boolean(capabilities?.prompts?.listChanged),
+      resources: Boolean(capabilities?.resources?.listChanged),
+      subscribe: Boolean(capabilities?.resources?.subscribe),
+    };
+  }
+
+  // Recent stderr output of a stdio server process
+  get stderr(): string[] {
+    return [...this.stderrLines];
+  }
+
+  // The server answered 401 with a WWW-Authenticate challenge that could not be met
+  // (no token, or one that could not be refreshed), so the user has to sign in
+  get authRequired(): boolean {
+    return !this.isConnected && this.authChallenge !== undefined;
+  }
+
+  private markClosed(): void {
+    if (this.isConnected) {
+      this.isConnected = false;
+      this.onclose?.();
     }
+  }
 
-    return new StreamableHTTPClientTransport(
-      new URL(this.config.url),
-      { requestInit }
-    );
+  // Errors returned by the server (bad arguments, unknown tool, ...) leave the session usable;
+  // anything else, such as a network failure or an expired session, means it has to be reopened
+  private handleRequestError(error: unknown): void {
+    const isProtocolError = error instanceof McpError
+      && error.code !== ErrorCode.ConnectionClosed
+      && error.code !== ErrorCode.RequestTimeout;
+    if (!isProtocolError) {
+      this.markClosed();
+    }
+  }
+
+  private createHttpTransport(config: MCPHttpConfig, kind: MCPHttpTransport): Transport {
+    const requestInit: RequestInit = {
+      headers: buildRequestHeaders(config),
+    };
+    const options = { requestInit, fetch: this.fetchWithChallenge, authProvider: this.options.authProvider };
+
+    return kind === 'sse'
+      ? new SSEClientTransport(new URL(config.url), options)
+      : new StreamableHTTPClientTransport(new URL(config.url), options);
+  }
+
+  // Remember authentication challenges seen while connecting
+  private fetchWithChallenge: FetchLike = async (url, init) => {
+    const response = await fetch(url, init);
+    if (response.status === 401 && response.headers.has('www-authenticate')) {
+      this.authChallenge = response.headers.get('www-authenticate') || '';
+    }
+    return response;
+  };
+
+  // Try the transport recorded for the server first, then the other one.
+  // Servers that predate Streamable HTTP reject its requests and only speak HTTP+SSE.
+  private async connectHttp(config: MCPHttpConfig): Promise<void> {
+    const order: MCPHttpTransport[] = config.httpTransport === 'sse'
+      ? ['sse', 'streamable-http']
+      : ['streamable-http', 'sse'];
+
+    let firstError: unknown;
+    for (const kind of order) {
+      try {
+        this.transport = this.createHttpTransport(config, kind);
+        await this.client.connect(this.transport);
+        this.negotiatedTransport = kind;
+        return;
+      } catch (error) {
+        firstError ??= error;
+        // An unreachable server, or one that wants a sign-in, fails the same way whatever the transport
+        if (error instanceof TypeError || error instanceof UnauthorizedError || this.authRequired) {
+          break;
+        }
+        log.debug('MCP transport rejected, trying the next one', { transport: kind, error });
+        this.client = this.createClient();
+      }
+    }
+    throw firstError;
+  }
+
+  // The process is started by connect() and stopped when the client is closed
+  private createStdioTransport(config: MCPStdioConfig): StdioClientTransport {
+    const commandError = getStdioCommandError(config.command);
+    if (commandError) {
+      throw new Error(commandError);
+    }
+
+    const transport = new StdioClientTransport({
+      command: config.command,
+      args: config.args,
+      env: config.env,
+      cwd: config.cwd || undefined,
+      stderr: 'pipe',
+    });
+
+    let partial = '';
+    transport.stderr?.on('data', (chunk: Buffer) => {
+      const lines = (partial + chunk.toString('utf8')).split(/\r?\n/);
+      partial = lines.pop() || '';
+      for (const line of lines.filter(Boolean)) {
+        log.debug('MCP server stderr', { command: config.command, line });
+        // Kept for display in the UI, so secrets are removed as they would be from the log
+        this.stderrLines.push(redact(line) as string);
+      }
+      this.stderrLines.splice(0, Math.max(0, this.stderrLines.length - STDERR_LINES));
+    });
+    return transport;
   }
 
   async connect(): Promise<void> {
+    this.authChallenge = undefined;
     try {
-      this.transport = this.createTransport();
-      await this.client.connect(this.transport);
+      if (isStdioConfig(this.config)) {
+        this.transport = this.createStdioTransport(this.config);
+        await this.client.connect(this.transport);
+      } else {
+        await this.connectHttp(this.config);
+      }
       this.isConnected = true;
     } catch (error) {
-      console.error("Failed to connect to MCP server:", error);
-      throw new Error(`MCP connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      log.error('Failed to connect to MCP server', { error, stderr: this.stderrLines.slice(-5) });
+      // A server process that exits during startup usually says why on stderr
+      const lastLine = this.stderrLines[this.stderrLines.length - 1];
+      const message = this.authRequired
+        ? 'the server requires sign-in'
+        : error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`MCP connection failed: ${message}${lastLine ? ` (stderr: ${lastLine})` : ''}`);
     }
   }
 
   async disconnect(): Promise<void> {
     try {
       if (this.client && this.isConnected) {
-        await this.client.close();
         this.isConnected = false;
+        await this.client.close();
       }
     } catch (error) {
-      console.error("Error during MCP disconnect:", error);
+      log.warn('Error during MCP disconnect', { error });
     }
   }
 
@@ -65,10 +277,12 @@ export class MCPServerClient {
       return (response.tools || []).map(tool => ({
         name: tool.name,
         description: tool.description,
-        inputSchema: tool.inputSchema as any
+        inputSchema: tool.inputSchema as any,
+        ...(tool.annotations && { annotations: tool.annotations as MCPToolAnnotations })
       }));
     } catch (error) {
-      console.error("Failed to list tools:", error);
+      this.handleRequestError(error);
+      log.error('Failed to list tools', { error });
       throw new Error(`Failed to list tools: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -83,11 +297,15 @@ export class MCPServerClient {
 
       return {
         success: true,
-        content: Array.isArray(response.content) ? response.content : [],
+        content: Array.isArray(response.content) ? response.content as MCPContentBlock[] : [],
+        ...(response.structuredContent !== undefined && {
+          structuredContent: response.structuredContent as Record<string, unknown>
+        }),
         isError: typeof response.isError === 'boolean' ? response.isError : false
       };
     } catch (error) {
-      console.error(`Failed to call tool "${request.name}":`, error);
+      this.handleRequestError(error);
+      log.error('Failed to call tool', { toolName: request.name, error });
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -105,55 +323,122 @@ export class MCPServerClient {
         arguments: prompt.arguments
       }));
     } catch (error) {
-      console.error("Failed to list prompts:", error);
+      this.handleRequestError(error);
+      log.error('Failed to list prompts', { error });
       throw new Error(`Failed to list prompts: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async getPrompt(request: { name: string; arguments?: Record<string, unknown> }): Promise<{
+  async getPrompt(request: { name: string; arguments?: Record<string, string> }): Promise<{
     description?: string;
-    messages?: unknown[];
+    messages: MCPPromptMessage[];
   }> {
     this.ensureConnected();
     try {
       const response = await this.client.getPrompt({
         name: request.name,
-        arguments: request.arguments as { [key: string]: string } || {}
+        arguments: request.arguments || {}
       });
-      return response;
+      return {
+        description: response.description,
+        messages: response.messages as MCPPromptMessage[]
+      };
     } catch (error) {
-      console.error(`Failed to get prompt "${request.name}":`, error);
+      this.handleRequestError(error);
+      log.error('Failed to get prompt', { prompt: request.name, error });
       throw new Error(`Failed to get prompt: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async listResources(): Promise<MCPResource[]> {
+  // One page of resources; pass nextCursor back to get the next page
+  async listResources(cursor?: string): Promise<{ resources: MCPResource[]; nextCursor?: string }> {
     this.ensureConnected();
+    // Servers without the resources capability have nothing to list
+    if (!this.client.getServerCapabilities()?.resources) {
+      return { resources: [] };
+    }
     try {
-      const response = await this.client.listResources();
-      return (response.resources || []).map(resource => ({
-        uri: resource.uri,
-        name: resource.name,
-        description: resource.description,
-        mimeType: resource.mimeType
-      }));
+      const response = await this.client.listResources(cursor ? { cursor } : undefined);
+      return {
+        resources: (response.resources || []).map(resource => ({
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType
+        })),
+        nextCursor: response.nextCursor
+      };
     } catch (error) {
-      console.error("Failed to list resources:", error);
+      this.handleRequestError(error);
+      log.error('Failed to list resources', { error });
       throw new Error(`Failed to list resources: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  async listResourceTemplates(cursor?: string): Promise<{
+    resourceTemplates: MCPResourceTemplate[];
+    nextCursor?: string;
+  }> {
+    this.ensureConnected();
+    if (!this.client.getServerCapabilities()?.resources) {
+      return { resourceTemplates: [] };
+    }
+    try {
+      const response = await this.client.listResourceTemplates(cursor ? { cursor } : undefined);
+      return {
+        resourceTemplates: (response.resourceTemplates || []).map(template => ({
+          uriTemplate: template.uriTemplate,
+          name: template.name,
+          description: template.description,
+          mimeType: template.mimeType
+        })),
+        nextCursor: response.nextCursor
+      };
+    } catch (error) {
+      this.handleRequestError(error);
+      log.error('Failed to list resource templates', { error });
+      throw new Error(`Failed to list resource templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Ask the server to send notifications/resources/updated when a resource changes
+  async subscribeResource(uri: string): Promise<void> {
+    this.ensureConnected();
+    if (!this.liveUpdates.subscribe) {
+      throw new Error('The server does not support resource subscriptions');
+    }
+    try {
+      await this.client.subscribeResource({ uri });
+    } catch (error) {
+      this.handleRequestError(error);
+      log.error('Failed to subscribe to resource', { uri, error });
+      throw new Error(`Failed to subscribe to resource: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    this.ensureConnected();
+    try {
+      await this.client.unsubscribeResource({ uri });
+    } catch (error) {
+      this.handleRequestError(error);
+      log.error('Failed to unsubscribe from resource', { uri, error });
+      throw new Error(`Failed to unsubscribe from resource: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async readResource(request: { uri: string }): Promise<{
-    contents: unknown[];
+    contents: MCPResourceContents[];
   }> {
     this.ensureConnected();
     try {
       const response = await this.client.readResource({
         uri: request.uri
       });
-      return response;
+      return { contents: response.contents as MCPResourceContents[] };
     } catch (error) {
-      console.error(`Failed to read resource "${request.uri}":`, error);
+      this.handleRequestError(error);
+      log.error('Failed to read resource', { uri: request.uri, error });
       throw new Error(`Failed to read resource: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
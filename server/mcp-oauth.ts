@@ -0,0 +1,203 @@
+import { randomUUID } from "crypto";
+import { auth, type OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type { OAuthClientInformationFull, OAuthClientMetadata, OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { MCPOAuthStatus } from "@shared/mcp-types";
+import { storage } from "./storage";
+import { encryptSecret, decryptSecret } from "./secrets";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'mcp-oauth' });
+
+// Sign-ins not completed within this time must be started again
+const PENDING_FLOW_TTL_MS = 10 * 60 * 1000;
+
+// What is kept per server, encrypted as a whole in the "oauth" field of its config column
+interface StoredOAuthState {
+  // Our registration with the server's authorization server (dynamic client registration)
+  client?: OAuthClientInformationFull;
+  tokens?: OAuthTokens;
+  tokensSavedAt?: string;
+}
+
+interface PendingFlow {
+  serverId: string;
+  codeVerifier: string;
+  createdAt: number;
+}
+
+// Sign-ins waiting for the authorization server to redirect back, by OAuth state parameter
+const pendingFlows = new Map<string, PendingFlow>();
+
+// Where the authorization server sends the browser back to (MCP_OAUTH_REDIRECT_URL).
+// It must be reachable from the user's browser and is registered with each authorization server.
+export function getOAuthRedirectUrl(): string {
+  return process.env.MCP_OAUTH_REDIRECT_URL
+    || `http://localhost:${process.env.PORT || '5000'}/api/mcp/oauth/callback`;
+}
+
+async function loadState(serverId: string): Promise<StoredOAuthState> {
+  const service = await storage.getService(serverId);
+  const stored = (service?.config as { oauth?: string } | null)?.oauth;
+  if (!stored) {
+    return {};
+  }
+  try {
+    return JSON.parse(decryptSecret(stored)) as StoredOAuthState;
+  } catch (error) {
+    log.error('Cannot read the OAuth state for MCP server', { serverId, error });
+    return {};
+  }
+}
+
+async function saveState(serverId: string, update: Partial<StoredOAuthState>): Promise<void> {
+  const service = await storage.getService(serverId);
+  if (!service) {
+    return;
+  }
+  const state = { ...(await loadState(serverId)), ...update };
+  await storage.updateService(serverId, {
+    config: { ...((service.config || {}) as object), oauth: encryptSecret(JSON.stringify(state)) },
+  });
+}
+
+function prunePendingFlows() {
+  const cutoff = Date.now() - PENDING_FLOW_TTL_MS;
+  for (const [state, flow] of Array.from(pendingFlows)) {
+    if (flow.createdAt < cutoff) {
+      pendingFlows.delete(state);
+    }
+  }
+}
+
+// Persists a server's OAuth client registration and tokens. The SDK transports use it
+// to attach the access token and refresh it on 401. Only an interactive provider, used
+// when the user clicks Sign in, starts a new authorization; for pooled sessions a
+// failed refresh just leaves the server waiting for sign-in.
+class ServerOAuthProvider implements OAuthClientProvider {
+  // Set when the SDK wants the user sent to the authorization server
+  authorizationUrl?: URL;
+  private readonly flowState = randomUUID();
+
+  constructor(
+    private serverId: string,
+    private flow: { interactive?: boolean; codeVerifier?: string } = {}
+  ) {}
+
+  get redirectUrl(): string {
+    return getOAuthRedirectUrl();
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'MCP Client',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    };
+  }
+
+  state(): string {
+    return this.flowState;
+  }
+
+  async clientInformation() {
+    return (await loadState(this.serverId)).client;
+  }
+
+  async saveClientInformation(client: OAuthClientInformationFull) {
+    await saveState(this.serverId, { client });
+  }
+
+  async tokens() {
+    return (await loadState(this.serverId)).tokens;
+  }
+
+  async saveTokens(tokens: OAuthTokens) {
+    await saveState(this.serverId, { tokens, tokensSavedAt: new Date().toISOString() });
+    log.info('Saved OAuth tokens for MCP server', { serverId: this.serverId });
+  }
+
+  redirectToAuthorization(authorizationUrl: URL) {
+    this.authorizationUrl = authorizationUrl;
+  }
+
+  saveCodeVerifier(codeVerifier: string) {
+    if (!this.flow.interactive) {
+      return;
+    }
+    prunePendingFlows();
+    pendingFlows.set(this.flowState, { serverId: this.serverId, codeVerifier, createdAt: Date.now() });
+  }
+
+  codeVerifier(): string {
+    if (!this.flow.codeVerifier) {
+      throw new Error('No sign-in in progress for this server');
+    }
+    return this.flow.codeVerifier;
+  }
+
+  async invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier') {
+    if (scope === 'all' || scope === 'client') {
+      await saveState(this.serverId, { client: undefined, tokens: undefined, tokensSavedAt: undefined });
+    } else if (scope === 'tokens') {
+      await saveState(this.serverId, { tokens: undefined, tokensSavedAt: undefined });
+    }
+  }
+}
+
+export function createOAuthProvider(serverId: string): OAuthClientProvider {
+  return new ServerOAuthProvider(serverId);
+}
+
+// Begin signing in to a server: discovers its authorization server, registers this
+// client if needed and returns the URL to send the user to. Returns undefined when
+// stored tokens (possibly after a refresh) are already accepted.
+export async function startAuthorization(serverId: string, serverUrl: string): Promise<string | undefined> {
+  const provider = new ServerOAuthProvider(serverId, { interactive: true });
+  const result = await auth(provider, { serverUrl });
+  if (result === 'AUTHORIZED') {
+    return undefined;
+  }
+  if (!provider.authorizationUrl) {
+    throw new Error('The authorization server did not provide a sign-in URL');
+  }
+  return provider.authorizationUrl.toString();
+}
+
+// Complete a sign-in from the authorization server's redirect; returns the server id
+export async function finishAuthorization(state: string, authorizationCode: string): Promise<string> {
+  prunePendingFlows();
+  const flow = pendingFlows.get(state);
+  if (!flow) {
+    throw new Error('Unknown or expired sign-in, please try again');
+  }
+  pendingFlows.delete(state);
+
+  const service = await storage.getService(flow.serverId);
+  if (!service?.url) {
+    throw new Error('Server not found');
+  }
+  const provider = new ServerOAuthProvider(flow.serverId, { codeVerifier: flow.codeVerifier });
+  const result = await auth(provider, { serverUrl: service.url, authorizationCode });
+  if (result !== 'AUTHORIZED') {
+    throw new Error('Sign-in was not completed');
+  }
+  return flow.serverId;
+}
+
+export async function signOut(serverId: string): Promise<void> {
+  await saveState(serverId, { tokens: undefined, tokensSavedAt: undefined });
+}
+
+export async function getOAuthStatus(serverId: string): Promise<MCPOAuthStatus> {
+  const { tokens, tokensSavedAt } = await loadState(serverId);
+  const expiresAt = tokens?.expires_in !== undefined && tokensSavedAt
+    ? new Date(Date.parse(tokensSavedAt) + tokens.expires_in * 1000).toISOString()
+    : undefined;
+  return {
+    signedIn: Boolean(tokens?.access_token),
+    ...(expiresAt && { expiresAt }),
+    canRefresh: Boolean(tokens?.refresh_token),
+  };
+}
@@ -0,0 +1,351 @@
+import { createHash } from "crypto";
+import { EventEmitter } from "events";
+import { isStdioConfig } from "@shared/mcp-types";
+import type { MCPServerConfig, MCPHttpTransport, MCPSessionState, MCPServerNotification } from "@shared/mcp-types";
+import { MCPServerClient } from "./mcp-client";
+import { createOAuthProvider } from "./mcp-oauth";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'mcp-pool' });
+
+// A registered server as the pool sees it
+export interface MCPPoolServer {
+  id: string;
+  config: MCPServerConfig;
+}
+
+interface PoolEntry {
+  serverId: string;
+  config: MCPServerConfig;
+  // Identifies the settings the session was opened with, so edits force a new one
+  fingerprint: string;
+  client: MCPServerClient | null;
+  connecting: Promise<MCPServerClient> | null;
+  state: MCPSessionState;
+  // Operations running on the session; it is not closed as idle while any are
+  inUse: number;
+  idleTimer?: NodeJS.Timeout;
+  retryTimer?: NodeJS.Timeout;
+}
+
+const entries = new Map<string, PoolEntry>();
+
+// Open event streams per server. A watched server's session is kept open, and
+// reopened when lost, so its notifications keep arriving.
+const watchers = new Map<string, number>();
+
+// Resources subscribed to per server, renewed whenever a new session opens
+const subscriptions = new Map<string, Set<string>>();
+
+// Things learned about a server while connecting, for the registry to record,
+// and notifications it sends, for the browsers watching it
+export const poolEvents = new EventEmitter<{
+  // The HTTP transport a server accepted differs from the one in its config
+  transport: [serverId: string, transport: MCPHttpTransport];
+  notification: [serverId: string, notification: MCPServerNotification];
+}>();
+
+function isWatched(serverId: string): boolean {
+  return (watchers.get(serverId) ?? 0) > 0;
+}
+
+// Sessions unused for this long are closed (MCP_IDLE_TIMEOUT_MS, default 5 minutes)
+function getIdleTimeoutMs(): number {
+  return readPositiveInt('MCP_IDLE_TIMEOUT_MS', 300000);
+}
+
+// Delay before reconnect attempt n: 1s, 2s, 4s, ... capped at MCP_RECONNECT_MAX_MS (default 30s)
+function getBackoffMs(failures: number): number {
+  const base = readPositiveInt('MCP_RECONNECT_BASE_MS', 1000);
+  const max = readPositiveInt('MCP_RECONNECT_MAX_MS', 30000);
+  return Math.min(base * 2 ** Math.max(0, failures - 1), max);
+}
+
+// A malformed value would make the timers fire at once, so the default is used instead
+function readPositiveInt(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// The recorded HTTP transport is only a hint for the next connection, so changing it
+// does not count as a settings change
+function fingerprintConfig(config: MCPServerConfig): string {
+  const { httpTransport: _httpTransport, ...settings } = config as MCPServerConfig & { httpTransport?: unknown };
+  return createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+}
+
+function clearTimers(entry: PoolEntry) {
+  clearTimeout(entry.idleTimer);
+  clearTimeout(entry.retryTimer);
+  entry.idleTimer = undefined;
+  entry.retryTimer = undefined;
+}
+
+function getEntry(server: MCPPoolServer): PoolEntry {
+  const fingerprint = fingerprintConfig(server.config);
+  const existing = entries.get(server.id);
+  if (existing && existing.fingerprint === fingerprint) {
+    return existing;
+  }
+  if (existing) {
+    log.info('MCP server settings changed, reopening session', { serverId: server.id });
+    void closeSession(server.id);
+  }
+
+  const entry: PoolEntry = {
+    serverId: server.id,
+    config: server.config,
+    fingerprint,
+    client: null,
+    connecting: null,
+    state: { status: 'idle', failures: 0 },
+    inUse: 0,
+  };
+  entries.set(server.id, entry);
+  return entry;
+}
+
+// Close the session once it has not been used for the idle timeout, unless it is watched.
+// A session with operations still running is left open; the last one to finish starts the
+// timer again.
+function touch(entry: PoolEntry) {
+  entry.state.lastUsedAt = new Date().toISOString();
+  clearTimeout(entry.idleTimer);
+  if (isWatched(entry.serverId)) {
+    entry.idleTimer = undefined;
+    return;
+  }
+  entry.idleTimer = setTimeout(() => {
+    if (entries.get(entry.serverId) === entry && entry.inUse === 0) {
+      log.debug('Closing idle MCP session', { serverId: entry.serverId });
+      void closeSession(entry.serverId);
+    }
+  }, getIdleTimeoutMs());
+  entry.idleTimer.unref();
+}
+
+function scheduleReconnect(entry: PoolEntry) {
+  const delay = getBackoffMs(entry.state.failures);
+  entry.state.status = 'reconnecting';
+  entry.state.retryAt = new Date(Date.now() + delay).toISOString();
+
+  clearTimeout(entry.retryTimer);
+  entry.retryTimer = setTimeout(() => {
+    if (entries.get(entry.serverId) === entry && !entry.client && !entry.connecting) {
+      connect(entry).catch(() => {
+        // Already recorded on the entry and rescheduled
+      });
+    }
+  }, delay);
+  entry.retryTimer.unref();
+}
+
+function connect(entry: PoolEntry): Promise<MCPServerClient> {
+  if (entry.connecting) {
+    return entry.connecting;
+  }
+
+  entry.state.status = entry.state.failures > 0 ? 'reconnecting' : 'connecting';
+  entry.connecting = (async () => {
+    const usesOAuth = !isStdioConfig(entry.config) && entry.config.authScheme === 'oauth';
+    const client = new MCPServerClient(entry.config, {
+      ...(usesOAuth && { authProvider: createOAuthProvider(entry.serverId) }),
+    });
+    try {
+      await client.connect();
+    } catch (error) {
+      entry.state.failures++;
+      entry.state.lastError = error instanceof Error ? error.message : 'Connection failed';
+      entry.state.stderr = client.stderr;
+      log.warn('MCP session failed to open', { serverId: entry.serverId, failures: entry.state.failures, error });
+      // Retrying cannot help until someone signs in, which closes this entry
+      if (client.authRequired) {
+        entry.state.status = 'idle';
+        entry.state.authRequired = true;
+      } else {
+        scheduleReconnect(entry);
+      }
+      throw error;
+    } finally {
+      entry.connecting = null;
+    }
+
+    // The entry was closed or replaced while connecting
+    if (entries.get(entry.serverId) !== entry) {
+      await client.disconnect();
+      throw new Error('MCP session was closed while connecting');
+    }
+
+    client.onclose = () => {
+      if (entry.client === client) {
+        log.info('MCP session lost', { serverId: entry.serverId });
+        entry.client = null;
+        entry.state.stderr = client.stderr;
+        entry.state.connectedAt = undefined;
+        entry.state.status = 'idle';
+        // Failures from here on back off as usual
+        if (isWatched(entry.serverId)) {
+          connect(entry).catch(() => {
+            // Already recorded on the entry and rescheduled
+          });
+        }
+      }
+    };
+    client.onnotification = notification => {
+      log.debug('MCP server notification', { serverId: entry.serverId, notification });
+      poolEvents.emit('notification', entry.serverId, notification);
+    };
+    entry.client = client;
+    clearTimeout(entry.retryTimer);
+    entry.state = {
+      status: 'connected',
+      connectedAt: new Date().toISOString(),
+      lastUsedAt: entry.state.lastUsedAt,
+      failures: 0,
+      liveUpdates: client.liveUpdates,
+    };
+    for (const uri of Array.from(subscriptions.get(entry.serverId) ?? [])) {
+      client.subscribeResource(uri).catch(error => {
+        log.warn('Could not renew resource subscription', { serverId: entry.serverId, uri, error });
+      });
+    }
+    log.debug('MCP session opened', { serverId: entry.serverId, transport: client.httpTransport });
+    if (!isStdioConfig(entry.config) && client.httpTransport && client.httpTransport !== entry.config.httpTransport) {
+      entry.config = { ...entry.config, httpTransport: client.httpTransport };
+      poolEvents.emit('transport', entry.serverId, client.httpTransport);
+    }
+    return client;
+  })();
+  return entry.connecting;
+}
+
+// A live session to the server, opening one if needed. While a reconnect is
+// backing off, callers get the last error straight away instead of waiting.
+async function acquire(entry: PoolEntry): Promise<MCPServerClient> {
+  touch(entry);
+  if (entry.client?.connected) {
+    return entry.client;
+  }
+  entry.client = null;
+
+  const retryAt = entry.state.retryAt ? Date.parse(entry.state.retryAt) : 0;
+  if (entry.state.status === 'reconnecting' && !entry.connecting && retryAt > Date.now()) {
+    const seconds = Math.ceil((retryAt - Date.now()) / 1000);
+    throw new Error(`${entry.state.lastError || 'Connection failed'} (retrying in ${seconds}s)`);
+  }
+  return connect(entry);
+}
+
+// Run an operation on the pooled session for a server. Operations that are safe
+// to repeat are retried once on a fresh session if the first one turns out to be broken.
+export async function withSession<T>(
+  server: MCPPoolServer,
+  operation: (client: MCPServerClient) => Promise<T>,
+  options: { retry?: boolean } = {}
+): Promise<T> {
+  const entry = getEntry(server);
+  entry.inUse++;
+  try {
+    const client = await acquire(entry);
+    try {
+      return await operation(client);
+    } catch (error) {
+      if (!options.retry || client.connected) {
+        throw error;
+      }
+      log.debug('Retrying on a new MCP session', { serverId: server.id, error });
+      return await operation(await acquire(entry));
+    }
+  } finally {
+    entry.inUse--;
+    if (entries.get(entry.serverId) === entry) {
+      touch(entry);
+    }
+  }
+}
+
+// Keep a server's session open while a browser shows its live updates; call the
+// returned function when it stops. The last watcher to leave drops the subscriptions.
+export function watchServer(server: MCPPoolServer): () => void {
+  watchers.set(server.id, (watchers.get(server.id) ?? 0) + 1);
+  const entry = getEntry(server);
+  acquire(entry).catch(error => {
+    log.debug('Watched MCP server is not reachable yet', { serverId: server.id, error });
+  });
+
+  let stopped = false;
+  return () => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    const count = (watchers.get(server.id) ?? 1) - 1;
+    if (count > 0) {
+      watchers.set(server.id, count);
+      return;
+    }
+    watchers.delete(server.id);
+
+    const uris = Array.from(subscriptions.get(server.id) ?? []);
+    subscriptions.delete(server.id);
+    const current = entries.get(server.id);
+    if (current) {
+      for (const uri of uris) {
+        current.client?.unsubscribeResource(uri).catch(() => {
+          // The session closes on its own once idle
+        });
+      }
+      touch(current);
+    }
+  };
+}
+
+export async function subscribeResource(server: MCPPoolServer, uri: string): Promise<void> {
+  await withSession(server, client => client.subscribeResource(uri), { retry: true });
+  const uris = subscriptions.get(server.id) ?? new Set<string>();
+  uris.add(uri);
+  subscriptions.set(server.id, uris);
+}
+
+// Without an open session there is no subscription left to cancel
+export async function unsubscribeResource(server: MCPPoolServer, uri: string): Promise<void> {
+  subscriptions.get(server.id)?.delete(uri);
+  const client = entries.get(server.id)?.client;
+  if (client?.connected) {
+    await client.unsubscribeResource(uri);
+  }
+}
+
+export function getSessionState(serverId: string): MCPSessionState {
+  const entry = entries.get(serverId);
+  if (!entry) {
+    return { status: 'idle', failures: 0 };
+  }
+  const stderr = entry.client?.stderr ?? entry.state.stderr;
+  return { ...entry.state, stderr: stderr?.length ? stderr : undefined };
+}
+
+export function listSessionStates(): Record<string, MCPSessionState> {
+  return Object.fromEntries(Array.from(entries.keys(), id => [id, getSessionState(id)]));
+}
+
+// Close a server's session, e.g. because it was edited or removed
+export async function closeSession(serverId: string): Promise<void> {
+  const entry = entries.get(serverId);
+  if (!entry) {
+    return;
+  }
+  entries.delete(serverId);
+  clearTimers(entry);
+
+  const client = entry.client;
+  entry.client = null;
+  entry.state.status = 'idle';
+  if (client) {
+    await client.disconnect();
+  }
+}
+
+export async function closeAllSessions(): Promise<void> {
+  await Promise.all(Array.from(entries.keys(), closeSession));
+}
@@ -0,0 +1,396 @@
+import type { MCPService, MCPTool as MCPToolRow } from "@shared/schema";
+import { isStdioConfig } from "@shared/mcp-types";
+import type { MCPServerConfig, MCPHttpConfig, MCPHttpTransport, MCPStdioConfig, MCPPublicServerConfig, MCPTool, MCPConfiguredServer, MCPAgentServer, MCPToolDrift, MCPRiskLevel } from "@shared/mcp-types";
+import { storage } from "./storage";
+import { closeSession, getSessionState, poolEvents } from "./mcp-pool";
+import { getOAuthStatus } from "./mcp-oauth";
+import { encryptSecret, decryptSecret, maskSecret, needsReencryption } from "./secrets";
+import { diffTools, hasDrift } from "./tool-drift";
+import { withRiskLevel } from "./tool-risk";
+import { forgetToolApprovals } from "./tool-approvals";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'mcp' });
+
+// Connection settings as submitted when editing a server; a null token or null
+// headers clear them. Settings for stdio servers must name the transport.
+export type MCPServerConfigUpdate =
+  | (Partial<Omit<MCPHttpConfig, 'bearerToken' | 'headers'>> & {
+      bearerToken?: string | null;
+      headers?: Record<string, string> | null;
+    })
+  | (Partial<MCPStdioConfig> & { transport: 'stdio' });
+
+// Tool rows share the "serverId:toolName" ids the client uses for tool selection
+function toolRowId(serverId: string, toolName: string): string {
+  return `${serverId}:${toolName}`;
+}
+
+// Derive a registry id from the server name, e.g. "GitHub Tools" -> "github-tools"
+export function serverIdFromName(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || `server-${Date.now()}`;
+}
+
+// Values of stdio environment variables and custom HTTP headers often hold API keys,
+// so they are stored encrypted like tokens
+function mapValues(values: Record<string, string> | undefined, map: (value: string) => string) {
+  return values && Object.fromEntries(Object.entries(values).map(([key, value]) => [key, map(value)]));
+}
+
+function secretValues(config: Record<string, unknown>): Record<string, string> | undefined {
+  return (isStdioConfig(config) ? config.env : (config as Partial<MCPHttpConfig>).headers) || undefined;
+}
+
+function withSecretValues(config: Record<string, unknown>, values: Record<string, string> | undefined) {
+  return { ...config, [isStdioConfig(config) ? 'env' : 'headers']: values };
+}
+
+function maskStoredSecret(value: string): string {
+  try {
+    return maskSecret(decryptSecret(value));
+  } catch {
+    return maskSecret('');
+  }
+}
+
+function storedConfig(service: MCPService): Record<string, unknown> {
+  return (service.config || {}) as Record<string, unknown>;
+}
+
+// HTTP servers keep the URL and encrypted token in their own columns; any other
+// settings, including everything for stdio servers, live in the config column.
+// OAuth registrations and tokens are kept there too, but are only read by server/mcp-oauth.ts.
+// So are the user's choices for single tools (risk level, always allowed), which are applied
+// to the tool list instead.
+function toPublicConfig(service: MCPService): MCPPublicServerConfig {
+  const { bearerToken: _bearerToken, oauth: _oauth, riskOverrides: _riskOverrides, allowedTools: _allowedTools, ...extra } = storedConfig(service);
+  const config = withSecretValues(extra, mapValues(secretValues(extra), maskStoredSecret));
+  return isStdioConfig(config) ? config : { ...config, url: service.url || '' };
+}
+
+// Full connection settings with secrets decrypted, for server-side use only
+function toServerConfig(service: MCPService): MCPServerConfig {
+  const { bearerToken: _bearerToken, oauth: _oauth, riskOverrides: _riskOverrides, allowedTools: _allowedTools, ...stored } = storedConfig(service);
+  let values: Record<string, string> | undefined;
+  try {
+    values = mapValues(secretValues(stored), decryptSecret);
+  } catch (error) {
+    log.error('Cannot decrypt the settings for MCP server', { serverId: service.id, error });
+  }
+
+  const config = withSecretValues(stored, values);
+  if (isStdioConfig(config)) {
+    return config;
+  }
+  const httpConfig: MCPHttpConfig = { ...config, url: service.url || '' };
+  if (service.token) {
+    try {
+      httpConfig.bearerToken = decryptSecret(service.token);
+    } catch (error) {
+      log.error('Cannot decrypt the token for MCP server', { serverId: service.id, error });
+    }
+  }
+  return httpConfig;
+}
+
+function toTokenColumns(bearerToken: string | null) {
+  return bearerToken
+    ? { token: encryptSecret(bearerToken), tokenHint: maskSecret(bearerToken) }
+    : { token: null, tokenHint: null };
+}
+
+interface ToolSettings {
+  // Risk levels the user set, by tool name
+  riskOverrides?: Record<string, MCPRiskLevel>;
+  // Tools the agent may call without asking
+  allowedTools?: string[];
+}
+
+function toolSettingsOf(config: Record<string, unknown>): ToolSettings {
+  return {
+    ...(config.riskOverrides ? { riskOverrides: config.riskOverrides as Record<string, MCPRiskLevel> } : {}),
+    ...(config.allowedTools ? { allowedTools: config.allowedTools as string[] } : {}),
+  };
+}
+
+function toServiceColumns(config: MCPServerConfigUpdate, current?: MCPService) {
+  const currentConfig = current ? storedConfig(current) : {};
+  // Settings of the previous transport are dropped when a server switches transport;
+  // the user's choices for single tools are kept, as the tools are likely the same
+  const switching = current !== undefined && (config.transport === 'stdio') !== isStdioConfig(currentConfig);
+  const base: Record<string, unknown> = switching ? { ...toolSettingsOf(currentConfig) } : currentConfig;
+
+  if (config.transport === 'stdio') {
+    const { env, ...extra } = config;
+    return {
+      url: null,
+      ...toTokenColumns(null),
+      config: { ...base, ...extra, ...(env !== undefined && { env: mapValues(env, encryptSecret) }) },
+    };
+  }
+
+  const { url, bearerToken, headers, ...extra } = config;
+  // A new URL may be a different server, so its transport is negotiated again
+  // and the user signs in to it afresh
+  const { httpTransport: _httpTransport, oauth: _oauth, ...settings } = base;
+  return {
+    ...(url !== undefined && { url }),
+    ...((bearerToken !== undefined || switching) && toTokenColumns(bearerToken || null)),
+    config: {
+      ...(url !== undefined && url !== current?.url ? settings : base),
+      ...extra,
+      ...(headers !== undefined && { headers: mapValues(headers || undefined, encryptSecret) }),
+    },
+  };
+}
+
+function toMCPTool(row: MCPToolRow): MCPTool {
+  return {
+    ...((row.config || {}) as Partial<MCPTool>),
+    name: row.name,
+    description: row.description || undefined,
+  };
+}
+
+// The server's stored tools, each with its risk level and whether it is always allowed
+async function reviewedTools(service: MCPService): Promise<MCPTool[]> {
+  const { riskOverrides = {}, allowedTools = [] } = toolSettingsOf(storedConfig(service));
+  return (await storage.getToolsByService(service.id)).map(row => ({
+    ...withRiskLevel(toMCPTool(row), riskOverrides[row.name]),
+    ...(allowedTools.includes(row.name) && { alwaysAllowed: true }),
+  }));
+}
+
+async function toConfiguredServer(service: MCPService): Promise<MCPConfiguredServer> {
+  const usesOAuth = storedConfig(service).authScheme === 'oauth';
+  return {
+    id: service.id,
+    name: service.name,
+    config: toPublicConfig(service),
+    ...(service.tokenHint && { tokenHint: service.tokenHint }),
+    tools: await reviewedTools(service),
+    connected: Boolean(service.connected),
+    createdAt: service.createdAt?.toISOString(),
+    session: getSessionState(service.id),
+    ...(usesOAuth && { oauth: await getOAuthStatus(service.id) }),
+  };
+}
+
+export async function listConfiguredServers(): Promise<MCPConfiguredServer[]> {
+  const services = await storage.getServices();
+  return Promise.all(services.map(toConfiguredServer));
+}
+
+export async function getConfiguredServer(id: string): Promise<MCPConfiguredServer | undefined> {
+  const service = await storage.getService(id);
+  return service ? toConfiguredServer(service) : undefined;
+}
+
+// Connection settings for a registered server, including its decrypted token
+export async function getServerConfig(id: string): Promise<MCPServerConfig | undefined> {
+  const service = await storage.getService(id);
+  return service ? toServerConfig(service) : undefined;
+}
+
+export async function createConfiguredServer(server: {
+  id: string;
+  name: string;
+  config: MCPServerConfig;
+  tools?: MCPTool[];
+}): Promise<MCPConfiguredServer> {
+  await storage.createService({
+    id: server.id,
+    name: server.name,
+    icon: 'server',
+    connected: Boolean(server.tools),
+    ...toServiceColumns(isStdioConfig(server.config)
+      ? server.config
+      : { ...server.config, bearerToken: server.config.bearerToken || null }),
+  });
+  if (server.tools) {
+    await saveServerTools(server.id, server.tools);
+  }
+  return (await getConfiguredServer(server.id))!;
+}
+
+export async function updateConfiguredServer(
+  id: string,
+  updates: { name?: string; config?: MCPServerConfigUpdate }
+): Promise<MCPConfiguredServer> {
+  const current = await storage.getService(id);
+  if (updates.config) {
+    await closeSession(id);
+  }
+  await storage.updateService(id, {
+    ...(updates.name && { name: updates.name }),
+    ...(updates.config && toServiceColumns(updates.config, current)),
+  });
+  return (await getConfiguredServer(id))!;
+}
+
+export async function removeConfiguredServer(id: string): Promise<void> {
+  await closeSession(id);
+  // Tool rows are keyed by the same "serverId:toolName" ids as approvals
+  forgetToolApprovals((await storage.getToolsByService(id)).map(row => row.id));
+  await storage.deleteService(id);
+}
+
+// Store the tools listed from a server and mark it reachable. Returns how they differ
+// from the stored ones, or null for a first listing or no change. The stored tools are
+// the ones the user reviewed, so a changed list replaces them only once the user
+// accepts the changes; until then the agent leaves out the tools that changed.
+export async function saveServerTools(
+  id: string,
+  tools: MCPTool[],
+  { acceptChanges = false }: { acceptChanges?: boolean } = {}
+): Promise<MCPToolDrift | null> {
+  const service = await storage.getService(id);
+  const { riskOverrides: overrides = {}, allowedTools = [] } = service ? toolSettingsOf(storedConfig(service)) : {};
+  const previous = (await storage.getToolsByService(id)).map(toMCPTool);
+  const drift = previous.length > 0 ? diffTools(previous, tools) : null;
+  if (drift && hasDrift(drift)) {
+    log.warn('MCP server tools changed', {
+      serverId: id,
+      added: drift.added.map(tool => tool.name),
+      removed: drift.removed.map(tool => tool.name),
+      changed: drift.changed.map(change => change.name),
+    });
+  }
+
+  // "Always allow" was given for the tool as it was, so it ends when the tool changes
+  const revoked = drift
+    ? [...drift.removed.map(tool => tool.name), ...drift.changed.map(change => change.name)]
+    : [];
+  if (revoked.length > 0) {
+    forgetToolApprovals(revoked.map(name => toolRowId(id, name)));
+    if (service && allowedTools.some(name => revoked.includes(name))) {
+      await storage.updateService(id, {
+        config: { ...storedConfig(service), allowedTools: allowedTools.filter(name => !revoked.includes(name)) },
+      });
+    }
+  }
+
+  if (drift && hasDrift(drift) && !acceptChanges) {
+    await storage.updateService(id, { connected: true });
+    return drift;
+  }
+
+  await storage.replaceTools(id, tools.map(tool => ({
+    id: toolRowId(id, tool.name),
+    serviceId: id,
+    name: tool.name,
+    description: tool.description || null,
+    riskLevel: withRiskLevel(tool, overrides[tool.name]).riskLevel!,
+    config: tool,
+  })));
+  await storage.updateService(id, { connected: true });
+  return drift && hasDrift(drift) ? drift : null;
+}
+
+// Remember which HTTP transport a server accepted, so the next session skips negotiation.
+// This does not go through updateConfiguredServer, which would close the open session.
+async function recordHttpTransport(id: string, httpTransport: MCPHttpTransport): Promise<void> {
+  const service = await storage.getService(id);
+  if (!service || isStdioConfig(storedConfig(service))) {
+    return;
+  }
+  await storage.updateService(id, { config: { ...storedConfig(service), httpTransport } });
+  log.info('Recorded MCP server transport', { serverId: id, transport: httpTransport });
+}
+
+poolEvents.on('transport', (id, httpTransport) => {
+  recordHttpTransport(id, httpTransport).catch(error => {
+    log.error('Cannot record MCP server transport', { serverId: id, error });
+  });
+});
+
+// Registered servers in the form the chat agent consumes
+export async function getAgentServers(): Promise<MCPAgentServer[]> {
+  const services = await storage.getServices();
+  return Promise.all(services.map(async service => ({
+    id: service.id,
+    name: service.name,
+    config: toServerConfig(service),
+    tools: await reviewedTools(service),
+  })));
+}
+
+// Set the risk level of one of a server's tools, or with null go back to the detected one.
+// Like recordHttpTransport, this leaves the open session alone.
+export async function setToolRiskOverride(
+  id: string,
+  toolName: string,
+  riskLevel: MCPRiskLevel | null
+): Promise<MCPConfiguredServer | undefined> {
+  const service = await storage.getService(id);
+  if (!service) {
+    return undefined;
+  }
+  const config = storedConfig(service);
+  const { [toolName]: _previous, ...riskOverrides } = toolSettingsOf(config).riskOverrides || {};
+  if (riskLevel) {
+    riskOverrides[toolName] = riskLevel;
+  }
+  await storage.updateService(id, { config: { ...config, riskOverrides } });
+
+  const row = (await storage.getToolsByService(id)).find(tool => tool.name === toolName);
+  if (row) {
+    await storage.updateTool(row.id, { riskLevel: withRiskLevel(toMCPTool(row), riskLevel || undefined).riskLevel! });
+  }
+  log.info('Set MCP tool risk level', { serverId: id, tool: toolName, riskLevel: riskLevel || 'detected' });
+  return getConfiguredServer(id);
+}
+
+// Let the agent call one of a server's tools without asking, or stop doing so
+export async function setToolAlwaysAllowed(
+  id: string,
+  toolName: string,
+  allowed: boolean
+): Promise<MCPConfiguredServer | undefined> {
+  const service = await storage.getService(id);
+  if (!service) {
+    return undefined;
+  }
+  const config = storedConfig(service);
+  const allowedTools = (toolSettingsOf(config).allowedTools || []).filter(name => name !== toolName);
+  if (allowed) {
+    allowedTools.push(toolName);
+  }
+  await storage.updateService(id, { config: { ...config, allowedTools } });
+  log.info('Set MCP tool approval', { serverId: id, tool: toolName, alwaysAllowed: allowed });
+  return getConfiguredServer(id);
+}
+
+// Re-encrypt stored tokens, header values, stdio environment values and OAuth state
+// under the current key, including any saved before encryption existed. Secrets whose
+// key is no longer configured are left alone.
+export async function rotateServerTokens(): Promise<number> {
+  let rotated = 0;
+  for (const service of await storage.getServices()) {
+    const stored = storedConfig(service);
+    const values = secretValues(stored);
+    const oauth = typeof stored.oauth === 'string' ? stored.oauth : undefined;
+    const tokenStale = Boolean(service.token && needsReencryption(service.token));
+    const valuesStale = Object.values(values || {}).some(needsReencryption);
+    const oauthStale = Boolean(oauth && needsReencryption(oauth));
+    if (!tokenStale && !valuesStale && !oauthStale) {
+      continue;
+    }
+    try {
+      const config = valuesStale
+        ? withSecretValues(stored, mapValues(mapValues(values, decryptSecret), encryptSecret))
+        : stored;
+      await storage.updateService(service.id, {
+        ...(tokenStale && toTokenColumns(decryptSecret(service.token!))),
+        ...((valuesStale || oauthStale) && {
+          config: oauthStale ? { ...config, oauth: encryptSecret(decryptSecret(oauth!)) } : config,
+        }),
+      });
+      rotated++;
+    } catch (error) {
+      log.error('Cannot re-encrypt the secrets for MCP server', { serverId: service.id, error });
+    }
+  }
+  return rotated;
+}
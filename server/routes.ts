@@ -1,45 +1,206 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertChatMessageSchema } from "@shared/schema";
+import { randomUUID } from "crypto";
+import { storage, type AuditFilter } from "./storage";
+import { insertChatMessageSchema, type Conversation } from "@shared/schema";
+import { isStdioConfig, CHAT_ATTACHMENT_TYPES, type MCPConfiguredServer, type MCPServerConfig, type MCPServerNotification, type AgentStreamEvent, type MCPAgentToolCall } from "@shared/mcp-types";
 import { z } from "zod";
-import { Ollama } from "ollama";
-import { testMCPConnection, callMCPToolWithConfig, listMCPToolsWithConfig, listMCPPromptsWithConfig, listMCPResourcesWithConfig } from "./mcp-actions";
+import { testMCPConnection, callMCPTool, listMCPTools, listMCPPrompts, getMCPPrompt, listMCPResources, listMCPResourceTemplates, readMCPResource, setMCPResourceSubscription } from "./mcp-actions";
+import { closeSession, getSessionState, listSessionStates, watchServer, poolEvents } from "./mcp-pool";
+import { getStdioCommandError } from "./mcp-client";
+import { startAuthorization, finishAuthorization, signOut } from "./mcp-oauth";
+import { resolveAgentTools, runChatAgent, toToolDefinition } from "./agent";
+import { createToolApprover, resolveToolApproval, forgetConversationApprovals } from "./tool-approvals";
+import { getPolicies, savePolicies, evaluatePolicies, formatPolicyError } from "./tool-policy";
+import { withRiskLevel } from "./tool-risk";
+import { recordToolCall, toAuditCsv } from "./audit";
+import { getContextBudget, getHistoryTokenBudget, buildHistoryMessages } from "./context";
+import { resolveModel, listAvailableModels, type ResolvedModel } from "./llm";
+import { wantsEventStream, openEventStream, abortOnDisconnect } from "./sse";
+import {
+  listConfiguredServers,
+  getConfiguredServer,
+  createConfiguredServer,
+  updateConfiguredServer,
+  removeConfiguredServer,
+  saveServerTools,
+  setToolRiskOverride,
+  setToolAlwaysAllowed,
+  getAgentServers,
+  getServerConfig,
+  rotateServerTokens,
+  serverIdFromName,
+} from "./mcp-registry";
 import multer from "multer";
 import fs from "fs/promises";
 import path from "path";
+import { logger } from "./logger";
 
-// Global storage for tracking successful MCP connections
-const connectedServers = new Map<string, { name: string; url: string; tools: string[]; lastSeen: Date }>();
-
-// Helper function to track successful MCP connections
-function trackMCPConnection(url: string, tools: any[]) {
-  const name = url.includes('zeppelin') ? 'Cairo Smart Contracts' : 
-               url.includes('javadocs') ? 'Javadocs API' :
-               url.includes('findadomain') ? 'Find-A-Domain' :
-               url;
-  
-  connectedServers.set(url, {
-    name,
-    url,
-    tools: tools.map(t => t.name),
-    lastSeen: new Date()
-  });
+const log = logger.child({ source: 'routes' });
+
+// Headers the MCP transports set themselves
+const RESERVED_HEADERS = ['accept', 'content-type', 'content-length', 'host', 'connection', 'mcp-session-id', 'mcp-protocol-version', 'last-event-id'];
+
+const headerNameSchema = z.string()
+  .regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, 'Invalid header name')
+  .refine(name => !RESERVED_HEADERS.includes(name.toLowerCase()), 'Header is set by the MCP client');
+
+const headersSchema = z.record(headerNameSchema, z.string().regex(/^[^\r\n]*$/, 'Header values cannot contain line breaks'));
+
+// Connection settings accepted when registering or editing an MCP server
+const httpAuthSchema = z.object({
+  authScheme: z.enum(['none', 'bearer', 'basic', 'api-key', 'oauth']).optional(),
+  username: z.string().optional(),
+  apiKeyHeader: headerNameSchema.optional(),
+});
+
+const httpConfigSchema = httpAuthSchema.extend({
+  transport: z.literal('http').optional(),
+  url: z.string().url(),
+  bearerToken: z.string().optional(),
+  headers: headersSchema.optional(),
+  httpTransport: z.enum(['streamable-http', 'sse']).optional(),
+});
+
+const stdioConfigSchema = z.object({
+  transport: z.literal('stdio'),
+  command: z.string().trim().min(1),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/), z.string()).optional(),
+  cwd: z.string().trim().optional(),
+});
+
+const serverConfigSchema = z.union([stdioConfigSchema, httpConfigSchema]);
+
+const createServerSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/).optional(),
+  name: z.string().trim().min(1),
+  config: serverConfigSchema,
+  tools: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    inputSchema: z.any().optional(),
+  }).passthrough()).optional(),
+});
+
+const updateServerSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  // Omit bearerToken to keep the stored token, or send null to remove it.
+  // Settings replace the stored ones field by field; headers and env as a whole.
+  config: z.union([
+    stdioConfigSchema.partial().extend({ transport: z.literal('stdio') }),
+    httpAuthSchema.extend({
+      transport: z.literal('http').optional(),
+      url: z.string().url().optional(),
+      bearerToken: z.string().min(1).nullable().optional(),
+      headers: headersSchema.nullable().optional(),
+    }),
+  ]).optional(),
+});
+
+// Stdio servers run a command on this machine, which the environment may forbid
+function stdioConfigError(config?: { transport?: string; command?: string }): string | undefined {
+  return config?.transport === 'stdio' && config.command ? getStdioCommandError(config.command) : undefined;
 }
 
-// Helper function to get currently connected MCP servers
-function getConnectedMCPServers() {
-  // Remove servers not seen in last 5 minutes
-  const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-  for (const [url, server] of Array.from(connectedServers.entries())) {
-    if (server.lastSeen < fiveMinutesAgo) {
-      connectedServers.delete(url);
-    }
+// Page the OAuth callback renders in the sign-in popup: it tells the window that opened
+// it how the sign-in went and closes itself
+function oauthCallbackPage(result: { serverId?: string; success: boolean; error?: string }): string {
+  // Safe to embed in a script element
+  const payload = JSON.stringify({ type: 'mcp-oauth', ...result }).replace(/</g, '\\u003c');
+  const text = result.success ? 'Signed in. You can close this window.' : 'Sign-in failed. You can close this window.';
+  return `<!DOCTYPE html>
+<html><head><title>MCP sign-in</title></head>
+<body><p>${text}</p>
+<script>
+  if (window.opener) {
+    window.opener.postMessage(${payload}, window.location.origin);
+    window.close();
+  }
+</script></body></html>`;
+}
+
+// MCP calls name a registered server; its stored credentials are used server-side
+const serverRefSchema = z.object({
+  serverId: z.string(),
+});
+
+const toolRiskSchema = z.object({
+  riskLevel: z.enum(['low', 'medium', 'high']).nullable(),
+});
+
+const toolApprovalSchema = z.object({
+  approved: z.boolean(),
+  scope: z.enum(['once', 'conversation', 'server']).optional(),
+});
+
+const pageRequestSchema = serverRefSchema.extend({
+  cursor: z.string().optional(),
+});
+
+const EVENT_STREAM_HEARTBEAT_MS = 25000;
+
+// Title given to threads before their first message names them
+const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+const CONVERSATION_TITLE_CHARS = 60;
+
+// Name a thread after the opening line of its first message
+function titleFromMessage(message: string): string {
+  const firstLine = message.split('\n').find(line => line.trim()) || '';
+  const title = firstLine.replace(/\s+/g, ' ').trim();
+  if (!title) {
+    return DEFAULT_CONVERSATION_TITLE;
   }
-  
-  return Array.from(connectedServers.values());
+  return title.length > CONVERSATION_TITLE_CHARS
+    ? title.slice(0, CONVERSATION_TITLE_CHARS) + '…'
+    : title;
 }
-import { MCPHttpConfig } from "@shared/mcp-types";
+
+// Page size for message history requests
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+const MAX_MESSAGE_PAGE_SIZE = 200;
+
+const messagePageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_MESSAGE_PAGE_SIZE).default(DEFAULT_MESSAGE_PAGE_SIZE),
+  before: z.string().optional(),
+});
+
+// Tabs of the app itself, sent as the selected service while they are open
+const APP_TABS = ['configuration', 'policies', 'audit'];
+
+// Page size for audit trail requests
+const DEFAULT_AUDIT_PAGE_SIZE = 100;
+const MAX_AUDIT_PAGE_SIZE = 500;
+
+// Filters shared by the audit trail query and export; dates are ISO strings
+const auditFilterQuerySchema = z.object({
+  serverId: z.string().optional(),
+  toolName: z.string().optional(),
+  conversationId: z.string().optional(),
+  actor: z.enum(['agent', 'user']).optional(),
+  decision: z.enum(['allowed', 'approved', 'denied', 'blocked']).optional(),
+  errors: z.enum(['true', 'false']).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+});
+
+const auditPageQuerySchema = auditFilterQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).default(DEFAULT_AUDIT_PAGE_SIZE),
+  before: z.string().optional(),
+});
+
+const auditExportQuerySchema = auditFilterQuerySchema.extend({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+function toAuditFilter({ errors, ...filter }: z.infer<typeof auditFilterQuerySchema>): AuditFilter {
+  return { ...filter, errorsOnly: errors === 'true' };
+}
+
+const conversationTitleSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+});
 
 // Configure multer for file uploads
 const upload = multer({
@@ -48,8 +209,7 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['application/pdf', 'text/plain', 'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    if (allowedTypes.includes(file.mimetype)) {
+    if (CHAT_ATTACHMENT_TYPES.includes(file.mimetype)) {
       cb(null, true);
     } else {
       cb(new Error('File type not supported'));
@@ -86,11 +246,21 @@ async function readFileContent(file: Express.Multer.File): Promise<{ content: st
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Move stored MCP tokens onto the current encryption key
+  rotateServerTokens()
+    .then(count => {
+      if (count > 0) {
+        log.info('Re-encrypted stored MCP server tokens', { count });
+      }
+    })
+    .catch(error => log.error('MCP token rotation failed', { error }));
+
   // Get all MCP services
   app.get("/api/services", async (req, res) => {
     try {
       const services = await storage.getServices();
-      res.json(services);
+      // Stored tokens never leave the server
+      res.json(services.map(({ token: _token, ...service }) => service));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch services" });
     }
@@ -99,11 +269,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get available LLM models
   app.get("/api/models", async (req, res) => {
     try {
-      const models = [
-        { id: "ollama-llama3.2", name: "Local LLM (Ollama)", provider: "ollama" },
-        { id: "openai-gpt4", name: "OpenAI GPT-4", provider: "openai" },
-        { id: "anthropic-claude", name: "Anthropic Claude", provider: "anthropic" },
-      ];
+      const models = await listAvailableModels(req.query.refresh === 'true');
       res.json(models);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch models" });
@@ -153,6 +319,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       let message: string;
       let serviceId: string | undefined;
+      let modelId: string | undefined;
+      let conversationId: string | undefined;
       let selectedTools: string[] | undefined;
       let fileMetadata: any[] = [];
       
@@ -161,6 +329,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // FormData request with file uploads
         message = req.body.message || '';
         serviceId = req.body.serviceId;
+        modelId = req.body.model;
+        conversationId = req.body.conversationId || undefined;
         selectedTools = req.body.selectedTools ? JSON.parse(req.body.selectedTools) : undefined;
         
         // Process uploaded files
@@ -177,53 +347,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const chatSchema = z.object({
           message: z.string(),
           serviceId: z.string().optional(),
+          model: z.string().optional(),
+          conversationId: z.string().optional(),
           selectedTools: z.array(z.string()).optional(),
         });
         
         const parsed = chatSchema.parse(req.body);
         message = parsed.message;
         serviceId = parsed.serviceId;
+        modelId = parsed.model;
+        conversationId = parsed.conversationId;
         selectedTools = parsed.selectedTools;
       }
       
+      // Pick the LLM provider from the model id the client selected
+      let resolvedModel: ResolvedModel;
+      try {
+        resolvedModel = resolveModel(modelId);
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Unknown model" });
+      }
+      if (!resolvedModel.provider.isConfigured()) {
+        return res.status(400).json({ message: `${resolvedModel.provider.name} is not configured on the server` });
+      }
+
+      // Continue the requested thread, or start a new one named after this message
+      let conversation: Conversation | undefined;
+      if (conversationId) {
+        conversation = await storage.getConversation(conversationId);
+        if (!conversation) {
+          return res.status(404).json({ message: "Conversation not found" });
+        }
+        if (conversation.title === DEFAULT_CONVERSATION_TITLE) {
+          conversation = await storage.updateConversation(conversation.id, { title: titleFromMessage(message) });
+        }
+      } else {
+        conversation = await storage.createConversation({ title: titleFromMessage(message) });
+      }
+
       // Store user message with file metadata
-      await storage.createMessage({
+      const userMessage = await storage.createMessage({
+        conversationId: conversation.id,
         content: message,
         type: "user",
         attachedFiles: fileMetadata.length > 0 ? fileMetadata : undefined,
       });
 
-      // Initialize Ollama client using environment variables
-      const ollamaHost = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434';
-      const ollamaModel = process.env.LOCAL_LLM_MODEL || 'llama3.2:1b';
-      const ollama = new Ollama({ host: ollamaHost });
+      // Cancel the upstream generation when the browser disconnects or stops the chat
+      const signal = abortOnDisconnect(res);
       
-      // Get real-time connected MCP servers for dynamic prompt
-      const connectedMCPServers = getConnectedMCPServers();
+      // Describe the registered MCP servers in the dynamic prompt
+      const registeredServers = await listConfiguredServers();
       
-      // Filter servers based on selected service (if any)
-      let relevantServers = connectedMCPServers;
-      if (serviceId && serviceId !== 'configuration') {
-        relevantServers = connectedMCPServers.filter(server => 
-          server.name.toLowerCase().includes(serviceId.toLowerCase()) ||
-          server.url.includes(serviceId)
-        );
+      // Filter servers based on selected service (if any). The app's own tabs are not
+      // services, so with one of them open the chat sees every server.
+      const selectedServiceId = serviceId && !APP_TABS.includes(serviceId) ? serviceId : undefined;
+      let relevantServers: MCPConfiguredServer[] = registeredServers;
+      if (selectedServiceId) {
+        relevantServers = registeredServers.filter(server => server.id === selectedServiceId);
       }
       
       // Create dynamic system prompt based on selected or all connected MCP services
       const servicesList = relevantServers.length > 0 
         ? relevantServers.map(s => s.name).join(', ') 
-        : (serviceId && serviceId !== 'configuration' ? `Selected service "${serviceId}" not currently connected` : 'No MCP services currently connected');
+        : (selectedServiceId ? `Selected service "${selectedServiceId}" not currently configured` : 'No MCP services currently configured');
         
       const toolsList = relevantServers.length > 0 
-        ? `\n\nAvailable tools${serviceId && serviceId !== 'configuration' ? ` for ${serviceId}` : ''}:\n${relevantServers.map(server => 
-            `${server.name}: ${server.tools.join(', ')}`
+        ? `\n\nAvailable tools${selectedServiceId ? ` for ${selectedServiceId}` : ''}:\n${relevantServers.map(server => 
+            `${server.name}: ${server.tools.map(tool => tool.name).join(', ')}`
           ).join('\n')}` 
         : '';
         
       const systemPrompt = `You are an AI assistant that helps users interact with Model Context Protocol (MCP) services. 
 
-${serviceId && serviceId !== 'configuration' ? `Currently selected service: ${serviceId}` : `All connected MCP services: ${servicesList}`}
+${selectedServiceId ? `Currently selected service: ${selectedServiceId}` : `All configured MCP services: ${servicesList}`}
 ${selectedTools && selectedTools.length > 0 ? `\nSelected tools: ${selectedTools.join(', ')}` : ''}${toolsList}
 
 I can help you interact with these MCP services and execute their available tools. 
@@ -232,42 +429,73 @@ If you have uploaded files, I can analyze and answer questions about their conte
 
 What would you like to do?`;
 
+      // Relay tokens and tool activity as Server-Sent Events when requested
+      const sendEvent = wantsEventStream(req) ? openEventStream(res) : null;
+      sendEvent?.('conversation', conversation);
+      sendEvent?.('user_message', userMessage);
+
       try {
-        // Call Ollama with configured model and optimized settings for ngrok connection
-        const response = await Promise.race([
-          ollama.chat({
-            model: ollamaModel,
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: message }
-            ],
-            stream: false,
-            options: {
-              temperature: 0.7,
-              top_p: 0.9,
-              num_predict: 150, // Reduced for faster responses over ngrok
-              stop: ['\n\n\n'], // Stop at triple newlines
-              num_ctx: 512, // Further reduced context for ngrok speed
-            }
-          }),
-          // Increase timeout for ngrok tunnel delays
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Response timeout')), 20000)
-          )
-        ]) as any;
-
-        const aiResponse = response.message.content;
+        // Expose the selected MCP tools to the model and let it call them
+        const agentTools = await resolveAgentTools(await getAgentServers(), selectedTools || []);
+
+        // Include earlier turns, condensing the oldest ones to fit the context window
+        const budget = getContextBudget();
+        const previousMessages = (await storage.getMessages(conversation.id)).filter(m => m.id !== userMessage.id);
+        const history = buildHistoryMessages(
+          previousMessages,
+          getHistoryTokenBudget(budget, systemPrompt, message, agentTools.map(toToolDefinition)),
+          agentTools.map(binding => binding.functionName),
+        );
+
+        const onEvent = sendEvent ? (event: AgentStreamEvent) => sendEvent(event.type, event) : undefined;
+        const result = await runChatAgent({
+          provider: resolvedModel.provider,
+          model: resolvedModel.model,
+          systemPrompt,
+          history,
+          userMessage: message,
+          tools: agentTools,
+          options: {
+            temperature: 0.7,
+            topP: 0.9,
+            maxTokens: budget.maxOutputTokens,
+            stop: ['\n\n\n'], // Stop at triple newlines
+            contextWindow: budget.contextWindow,
+          },
+          signal,
+          onEvent,
+          // Medium and high risk tool calls wait for the user's approval
+          approveToolCall: createToolApprover({ conversationId: conversation.id, emit: onEvent, signal }),
+          conversationId: conversation.id,
+          userId: conversation.userId,
+        });
+
+        // Nothing to record if the user stopped the chat before any output
+        if (result.aborted && !result.content && result.toolCalls.length === 0) {
+          return res.end();
+        }
 
         // Store AI response
         const responseMessage = await storage.createMessage({
-          content: aiResponse,
+          conversationId: conversation.id,
+          content: result.content,
           type: "assistant",
           attachedFiles: undefined,
+          toolCalls: result.toolCalls,
         });
 
-        res.json({ response: responseMessage });
-      } catch (ollamaError) {
-        console.error('Ollama error:', ollamaError);
+        if (sendEvent) {
+          sendEvent('done', { response: responseMessage });
+          res.end();
+        } else if (!result.aborted) {
+          res.json({ response: responseMessage, conversation });
+        }
+      } catch (llmError) {
+        log.error('LLM provider error', { provider: resolvedModel.provider.name, error: llmError });
+        if (sendEvent) {
+          sendEvent('error', { type: 'error', message: "AI service temporarily unavailable" });
+          return res.end();
+        }
         // Instead of fallback, return proper error response
         res.status(503).json({ 
           message: "AI service temporarily unavailable",
@@ -275,40 +503,480 @@ What would you like to do?`;
         });
       }
     } catch (error) {
-      console.error('Chat API error:', error);
+      log.error('Chat API error', { error });
+      if (res.headersSent) {
+        return res.end();
+      }
       res.status(500).json({ message: "Failed to process chat message" });
     }
   });
 
-  // Get chat messages
+  // Answer a tool call the agent is waiting on. With scope "conversation" or "server"
+  // the tool is approved from then on, for the conversation or for every conversation.
+  app.post("/api/chat/tool-approvals/:id", async (req, res) => {
+    try {
+      const { approved, scope } = toolApprovalSchema.parse(req.body);
+      const call = resolveToolApproval(req.params.id, approved, scope);
+      if (!call) {
+        return res.status(404).json({ message: "No tool call is waiting for this approval" });
+      }
+      if (approved && scope === 'server') {
+        await setToolAlwaysAllowed(call.serverId, call.toolName, true);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid approval" });
+      }
+      log.error('Tool approval error', { error });
+      res.status(500).json({ message: "Failed to record approval" });
+    }
+  });
+
+  // Tool policy rules and the file they are kept in
+  app.get("/api/policies", async (req, res) => {
+    try {
+      res.json(await getPolicies());
+    } catch (error) {
+      log.error('Policies fetch error', { error });
+      res.status(500).json({ message: "Failed to read policies" });
+    }
+  });
+
+  // Replace the rules; they are written back to the policy file
+  app.put("/api/policies", async (req, res) => {
+    try {
+      const { rules } = z.object({ rules: z.unknown() }).parse(req.body);
+      res.json(await savePolicies(rules));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: formatPolicyError(error) });
+      }
+      log.error('Policies save error', { error });
+      res.status(500).json({ message: "Failed to save policies" });
+    }
+  });
+
+  // Tool calls made by the agent and by hand, newest first
+  app.get("/api/audit", async (req, res) => {
+    try {
+      const { limit, before, ...filter } = auditPageQuerySchema.parse(req.query);
+      res.json(await storage.getAuditEntries(toAuditFilter(filter), { limit, before }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit filters" });
+      }
+      log.error('Audit query error', { error });
+      res.status(500).json({ message: "Failed to fetch audit entries" });
+    }
+  });
+
+  // Every entry matching the filters, as a CSV or JSON download
+  app.get("/api/audit/export", async (req, res) => {
+    try {
+      const { format, ...filter } = auditExportQuerySchema.parse(req.query);
+      const { entries } = await storage.getAuditEntries(toAuditFilter(filter));
+      const filename = `tool-audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      if (format === 'csv') {
+        res.type('text/csv').send(toAuditCsv(entries));
+      } else {
+        res.type('application/json').send(JSON.stringify(entries, null, 2));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit filters" });
+      }
+      log.error('Audit export error', { error });
+      res.status(500).json({ message: "Failed to export audit entries" });
+    }
+  });
+
+  // Get chat messages, optionally limited to one conversation
   app.get("/api/messages", async (req, res) => {
     try {
-      const messages = await storage.getMessages();
+      const conversationId = typeof req.query.conversationId === 'string' ? req.query.conversationId : undefined;
+      const messages = await storage.getMessages(conversationId);
       res.json(messages);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
+  // List conversation threads, most recently active first
+  app.get("/api/conversations", async (req, res) => {
+    try {
+      const conversations = await storage.getConversations();
+      res.json(conversations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  // Start an empty conversation thread
+  app.post("/api/conversations", async (req, res) => {
+    try {
+      const { title } = conversationTitleSchema.partial().parse(req.body || {});
+      const conversation = await storage.createConversation({ title: title || DEFAULT_CONVERSATION_TITLE });
+      res.status(201).json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid conversation title" });
+      }
+      res.status(500).json({ message: "Failed to create conversation" });
+    }
+  });
+
+  // Rename a conversation thread
+  app.patch("/api/conversations/:id", async (req, res) => {
+    try {
+      const { title } = conversationTitleSchema.parse(req.body);
+      if (!(await storage.getConversation(req.params.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const conversation = await storage.updateConversation(req.params.id, { title });
+      res.json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid conversation title" });
+      }
+      res.status(500).json({ message: "Failed to rename conversation" });
+    }
+  });
+
+  // Delete a conversation thread and its messages
+  app.delete("/api/conversations/:id", async (req, res) => {
+    try {
+      if (!(await storage.getConversation(req.params.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      await storage.deleteConversation(req.params.id);
+      forgetConversationApprovals(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  // Copy a thread, optionally only up to a given message, into a new conversation
+  app.post("/api/conversations/:id/fork", async (req, res) => {
+    try {
+      const { messageId } = z.object({ messageId: z.string().optional() }).parse(req.body || {});
+      if (!(await storage.getConversation(req.params.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const conversation = await storage.forkConversation(req.params.id, messageId);
+      res.status(201).json(conversation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fork request" });
+      }
+      log.error('Fork conversation error', { error });
+      res.status(500).json({ message: "Failed to fork conversation" });
+    }
+  });
+
+  // Get the history of one conversation thread, newest page first.
+  // Pass the id of the oldest message received as `before` to page further back.
+  app.get("/api/conversations/:id/messages", async (req, res) => {
+    try {
+      const options = messagePageQuerySchema.parse(req.query);
+      if (!(await storage.getConversation(req.params.id))) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      const page = await storage.getMessagePage(req.params.id, options);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pagination parameters" });
+      }
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Registered MCP servers, shared by the chat agent and every browser
+  app.get("/api/mcp/servers", async (req, res) => {
+    try {
+      const servers = await listConfiguredServers();
+      res.json(servers);
+    } catch (error) {
+      log.error('MCP list servers error', { error });
+      res.status(500).json({ message: "Failed to fetch servers" });
+    }
+  });
+
+  app.get("/api/mcp/servers/:id", async (req, res) => {
+    try {
+      const server = await getConfiguredServer(req.params.id);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      res.json(server);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch server" });
+    }
+  });
+
+  app.post("/api/mcp/servers", async (req, res) => {
+    try {
+      const { id, name, config, tools } = createServerSchema.parse(req.body);
+      const serverId = id || serverIdFromName(name);
+      const commandError = stdioConfigError(config);
+      if (commandError) {
+        return res.status(400).json({ message: commandError });
+      }
+      if (await getConfiguredServer(serverId)) {
+        return res.status(409).json({ message: `A server with id "${serverId}" already exists` });
+      }
+      const server = await createConfiguredServer({ id: serverId, name, config, tools });
+      res.status(201).json(server);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid server configuration" });
+      }
+      log.error('MCP create server error', { error });
+      res.status(500).json({ message: "Failed to save server" });
+    }
+  });
+
+  app.patch("/api/mcp/servers/:id", async (req, res) => {
+    try {
+      const updates = updateServerSchema.parse(req.body);
+      const commandError = stdioConfigError(updates.config);
+      if (commandError) {
+        return res.status(400).json({ message: commandError });
+      }
+      const current = await getConfiguredServer(req.params.id);
+      if (!current) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      // Switching transport needs the new transport's required setting
+      if (updates.config && (updates.config.transport === 'stdio') !== isStdioConfig(current.config)) {
+        const missing = updates.config.transport === 'stdio' ? !updates.config.command : !updates.config.url;
+        if (missing) {
+          return res.status(400).json({ message: "Changing transport requires a command (stdio) or URL (http)" });
+        }
+      }
+      const server = await updateConfiguredServer(req.params.id, updates);
+      res.json(server);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid server configuration" });
+      }
+      log.error('MCP update server error', { error });
+      res.status(500).json({ message: "Failed to update server" });
+    }
+  });
+
+  app.delete("/api/mcp/servers/:id", async (req, res) => {
+    try {
+      if (!(await getConfiguredServer(req.params.id))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      await removeConfiguredServer(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      log.error('MCP delete server error', { error });
+      res.status(500).json({ message: "Failed to remove server" });
+    }
+  });
+
+  // List tools from a registered server and store them in the registry. A list that
+  // differs from the stored one is only stored with acceptChanges, once the user saw the diff.
+  app.post("/api/mcp/servers/:id/refresh-tools", async (req, res) => {
+    try {
+      const { acceptChanges } = z.object({ acceptChanges: z.boolean().optional() }).parse(req.body || {});
+      const config = await getServerConfig(req.params.id);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      const result = await listMCPTools({ id: req.params.id, config });
+      const drift = result.success && result.tools ? await saveServerTools(req.params.id, result.tools, { acceptChanges }) : null;
+      // The saved tools carry their risk levels
+      const tools = result.success ? (await getConfiguredServer(req.params.id))?.tools : undefined;
+      res.json({ ...result, ...(tools && { tools }), ...(drift && { drift }) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ success: false, error: "Invalid request" });
+      }
+      log.error('MCP refresh tools error', { error });
+      res.status(500).json({ success: false, error: "Failed to refresh tools" });
+    }
+  });
+
+  // Set the risk level of one of a server's tools, or with null use the detected one again
+  app.put("/api/mcp/servers/:id/tools/:name/risk", async (req, res) => {
+    try {
+      const { riskLevel } = toolRiskSchema.parse(req.body);
+      const current = await getConfiguredServer(req.params.id);
+      if (!current) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      if (!current.tools.some(tool => tool.name === req.params.name)) {
+        return res.status(404).json({ message: "Tool not found" });
+      }
+      const server = await setToolRiskOverride(req.params.id, req.params.name, riskLevel);
+      res.json(server);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Risk level must be low, medium, high or null" });
+      }
+      log.error('MCP set tool risk error', { error });
+      res.status(500).json({ message: "Failed to set risk level" });
+    }
+  });
+
+  // Let the agent call a tool without asking each time, or ask again
+  app.put("/api/mcp/servers/:id/tools/:name/approval", async (req, res) => {
+    try {
+      const { alwaysAllow } = z.object({ alwaysAllow: z.boolean() }).parse(req.body);
+      const current = await getConfiguredServer(req.params.id);
+      if (!current) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      if (!current.tools.some(tool => tool.name === req.params.name)) {
+        return res.status(404).json({ message: "Tool not found" });
+      }
+      const server = await setToolAlwaysAllowed(req.params.id, req.params.name, alwaysAllow);
+      res.json(server);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "alwaysAllow must be true or false" });
+      }
+      log.error('MCP set tool approval error', { error });
+      res.status(500).json({ message: "Failed to update tool approval" });
+    }
+  });
+
+  // State of the pooled session to each server that has one
+  app.get("/api/mcp/sessions", (req, res) => {
+    res.json(listSessionStates());
+  });
+
+  // Server-Sent Events stream of a server's change notifications. While one is open
+  // the server's session is kept open so notifications keep arriving.
+  app.get("/api/mcp/servers/:id/events", async (req, res) => {
+    const serverId = req.params.id;
+    let config: MCPServerConfig | undefined;
+    try {
+      config = await getServerConfig(serverId);
+    } catch (error) {
+      log.error('MCP event stream error', { serverId, error });
+      return res.status(500).json({ message: "Failed to open event stream" });
+    }
+    if (!config) {
+      return res.status(404).json({ message: "Server not found" });
+    }
+
+    const send = openEventStream(res);
+    const unwatch = watchServer({ id: serverId, config });
+    const forward = (id: string, notification: MCPServerNotification) => {
+      if (id === serverId) {
+        send('notification', notification);
+      }
+    };
+    poolEvents.on('notification', forward);
+    // Keeps proxies from closing a quiet stream
+    const heartbeat = setInterval(() => send('ping', {}), EVENT_STREAM_HEARTBEAT_MS);
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      poolEvents.off('notification', forward);
+      unwatch();
+    });
+  });
+
+  // Drop the current session (skipping any reconnect backoff) and open a new one
+  app.post("/api/mcp/servers/:id/reconnect", async (req, res) => {
+    try {
+      const config = await getServerConfig(req.params.id);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      await closeSession(req.params.id);
+      const result = await listMCPTools({ id: req.params.id, config });
+      const drift = result.success && result.tools ? await saveServerTools(req.params.id, result.tools) : null;
+      const tools = result.success ? (await getConfiguredServer(req.params.id))?.tools : undefined;
+      res.json({ ...result, ...(tools && { tools }), ...(drift && { drift }), session: getSessionState(req.params.id) });
+    } catch (error) {
+      log.error('MCP reconnect error', { error });
+      res.status(500).json({ success: false, error: "Failed to reconnect" });
+    }
+  });
+
+  // Start signing in to an OAuth-protected server; the browser opens the returned URL
+  app.post("/api/mcp/servers/:id/oauth/authorize", async (req, res) => {
+    try {
+      const config = await getServerConfig(req.params.id);
+      if (!config) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      if (isStdioConfig(config) || config.authScheme !== 'oauth') {
+        return res.status(400).json({ message: "Server is not set up for OAuth sign-in" });
+      }
+      const authorizationUrl = await startAuthorization(req.params.id, config.url);
+      if (!authorizationUrl) {
+        // Stored tokens were still good (or were refreshed)
+        await closeSession(req.params.id);
+        return res.json({ authorized: true });
+      }
+      res.json({ authorizationUrl });
+    } catch (error) {
+      log.error('MCP OAuth authorize error', { serverId: req.params.id, error });
+      res.status(502).json({ message: error instanceof Error ? error.message : "Failed to start sign-in" });
+    }
+  });
+
+  // The authorization server redirects the browser here (see MCP_OAUTH_REDIRECT_URL)
+  app.get("/api/mcp/oauth/callback", async (req, res) => {
+    const { code, state, error, error_description } = req.query;
+    try {
+      if (typeof error === 'string') {
+        throw new Error(typeof error_description === 'string' ? error_description : error);
+      }
+      if (typeof code !== 'string' || typeof state !== 'string') {
+        throw new Error('Missing authorization code');
+      }
+      const serverId = await finishAuthorization(state, code);
+      // The next session is opened with the new tokens
+      await closeSession(serverId);
+      log.info('Signed in to MCP server', { serverId });
+      res.type('html').send(oauthCallbackPage({ serverId, success: true }));
+    } catch (callbackError) {
+      log.warn('MCP OAuth callback failed', { error: callbackError });
+      res.status(400).type('html').send(oauthCallbackPage({
+        success: false,
+        error: callbackError instanceof Error ? callbackError.message : 'Sign-in failed',
+      }));
+    }
+  });
+
+  app.delete("/api/mcp/servers/:id/oauth", async (req, res) => {
+    try {
+      if (!(await getConfiguredServer(req.params.id))) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      await closeSession(req.params.id);
+      await signOut(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      log.error('MCP OAuth sign-out error', { serverId: req.params.id, error });
+      res.status(500).json({ message: "Failed to sign out" });
+    }
+  });
+
   // MCP API endpoints
   app.post("/api/mcp/test-connection", async (req, res) => {
     try {
-      const configSchema = z.object({
-        url: z.string().url(),
-        bearerToken: z.string().optional(),
-      });
-      
-      const config = configSchema.parse(req.body);
-      const result = await testMCPConnection(config);
-      
-      // Track successful connections for chat context
-      if (result.success && result.tools) {
-        trackMCPConnection(config.url, result.tools);
+      const config = serverConfigSchema.parse(req.body);
+      const commandError = stdioConfigError(config);
+      if (commandError) {
+        return res.status(400).json({ success: false, error: commandError });
       }
-      
+      const result = await testMCPConnection(config);
       res.json(result);
     } catch (error) {
-      console.error('MCP test connection error:', error);
+      log.error('MCP test connection error', { error });
       res.status(400).json({ 
         success: false, 
         error: error instanceof Error ? error.message : "Invalid request" 
@@ -318,17 +986,16 @@ What would you like to do?`;
 
   app.post("/api/mcp/list-tools", async (req, res) => {
     try {
-      const configSchema = z.object({
-        url: z.string().url(),
-        bearerToken: z.string().optional(),
-      });
-      
-      const config = configSchema.parse(req.body);
-      const result = await listMCPToolsWithConfig(config);
+      const { serverId } = serverRefSchema.parse(req.body);
+      const config = await getServerConfig(serverId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      const result = await listMCPTools({ id: serverId, config });
       
       res.json(result);
     } catch (error) {
-      console.error('MCP list tools error:', error);
+      log.error('MCP list tools error', { error });
       res.status(400).json({ 
         success: false, 
         error: error instanceof Error ? error.message : "Invalid request" 
@@ -338,21 +1005,57 @@ What would you like to do?`;
 
   app.post("/api/mcp/call-tool", async (req, res) => {
     try {
-      const requestSchema = z.object({
-        config: z.object({
-          url: z.string().url(),
-          bearerToken: z.string().optional(),
-        }),
+      const requestSchema = serverRefSchema.extend({
         toolName: z.string(),
         arguments: z.record(z.unknown()).optional(),
+        // Confirms a call that a policy rule says to ask about
+        approved: z.boolean().optional(),
       });
       
-      const { config, toolName, arguments: args } = requestSchema.parse(req.body);
-      const result = await callMCPToolWithConfig(config, toolName, args || {});
+      const { serverId, toolName, arguments: args, approved } = requestSchema.parse(req.body);
+      const config = await getServerConfig(serverId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      // Deny rules always apply. A call the policies would ask about is recorded as
+      // approved by the user: clicking Run approves it, unless a rule says to ask, in
+      // which case the user confirms it first.
+      const start = Date.now();
+      const server = await getConfiguredServer(serverId);
+      const stored = server?.tools.find(tool => tool.name === toolName);
+      const riskLevel = (stored || withRiskLevel({ name: toolName })).riskLevel!;
+      const policy = await evaluatePolicies({ serverId, toolName, arguments: args || {} }, riskLevel);
+      const call: MCPAgentToolCall = {
+        id: randomUUID(),
+        step: 0,
+        serverId,
+        serverName: server?.name || serverId,
+        toolName,
+        arguments: args || {},
+        durationMs: 0,
+        policy,
+      };
+      if (policy.effect === 'deny') {
+        const error = `Blocked by policy rule "${policy.ruleId}"`;
+        await recordToolCall({ ...call, error }, { actor: 'user' });
+        return res.json({ success: false, error, policy });
+      }
+      // A rule that says to ask needs the user to confirm; nothing has run yet
+      if (policy.ruleId && policy.effect === 'ask' && !approved) {
+        return res.json({ success: false, error: `Policy rule "${policy.ruleId}" requires approval`, policy, approvalRequired: true });
+      }
+      if (policy.effect === 'ask') {
+        call.approval = { status: 'approved', scope: 'once', by: 'user' };
+      }
+      const result = await callMCPTool({ id: serverId, config }, toolName, args || {});
+      await recordToolCall(
+        { ...call, result, error: result.success ? undefined : result.error, durationMs: Date.now() - start },
+        { actor: 'user' }
+      );
       
-      res.json(result);
+      res.json({ ...result, policy });
     } catch (error) {
-      console.error('MCP call tool error:', error);
+      log.error('MCP call tool error', { error });
       res.status(400).json({ 
         success: false, 
         error: error instanceof Error ? error.message : "Invalid request" 
@@ -362,17 +1065,16 @@ What would you like to do?`;
 
   app.post("/api/mcp/list-prompts", async (req, res) => {
     try {
-      const configSchema = z.object({
-        url: z.string().url(),
-        bearerToken: z.string().optional(),
-      });
-      
-      const config = configSchema.parse(req.body);
-      const result = await listMCPPromptsWithConfig(config);
+      const { serverId } = serverRefSchema.parse(req.body);
+      const config = await getServerConfig(serverId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      const result = await listMCPPrompts({ id: serverId, config });
       
       res.json(result);
     } catch (error) {
-      console.error('MCP list prompts error:', error);
+      log.error('MCP list prompts error', { error });
       res.status(400).json({ 
         success: false, 
         error: error instanceof Error ? error.message : "Invalid request" 
@@ -380,19 +1082,44 @@ What would you like to do?`;
     }
   });
 
-  app.post("/api/mcp/list-resources", async (req, res) => {
+  // Expand a prompt with its arguments into the messages it stands for
+  app.post("/api/mcp/get-prompt", async (req, res) => {
     try {
-      const configSchema = z.object({
-        url: z.string().url(),
-        bearerToken: z.string().optional(),
+      const requestSchema = serverRefSchema.extend({
+        name: z.string(),
+        arguments: z.record(z.string()).optional(),
       });
-      
-      const config = configSchema.parse(req.body);
-      const result = await listMCPResourcesWithConfig(config);
+
+      const { serverId, name, arguments: args } = requestSchema.parse(req.body);
+      const config = await getServerConfig(serverId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      const result = await getMCPPrompt({ id: serverId, config }, name, args || {});
+
+      res.json(result);
+    } catch (error) {
+      log.error('MCP get prompt error', { error });
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid request"
+      });
+    }
+  });
+
+  // Resource lists are paged: send back the nextCursor of one page to get the next
+  app.post("/api/mcp/list-resources", async (req, res) => {
+    try {
+      const { serverId, cursor } = pageRequestSchema.parse(req.body);
+      const config = await getServerConfig(serverId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      const result = await listMCPResources({ id: serverId, config }, cursor);
       
       res.json(result);
     } catch (error) {
-      console.error('MCP list resources error:', error);
+      log.error('MCP list resources error', { error });
       res.status(400).json({ 
         success: false, 
         error: error instanceof Error ? error.message : "Invalid request" 
@@ -400,6 +1127,73 @@ What would you like to do?`;
     }
   });
 
+  app.post("/api/mcp/list-resource-templates", async (req, res) => {
+    try {
+      const { serverId, cursor } = pageRequestSchema.parse(req.body);
+      const config = await getServerConfig(serverId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      const result = await listMCPResourceTemplates({ id: serverId, config }, cursor);
+
+      res.json(result);
+    } catch (error) {
+      log.error('MCP list resource templates error', { error });
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid request"
+      });
+    }
+  });
+
+  app.post("/api/mcp/read-resource", async (req, res) => {
+    try {
+      const requestSchema = serverRefSchema.extend({
+        uri: z.string().min(1),
+      });
+
+      const { serverId, uri } = requestSchema.parse(req.body);
+      const config = await getServerConfig(serverId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      const result = await readMCPResource({ id: serverId, config }, uri);
+
+      res.json(result);
+    } catch (error) {
+      log.error('MCP read resource error', { error });
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid request"
+      });
+    }
+  });
+
+  // Ask for (or stop) notifications when a resource changes; they arrive on the server's event stream
+  app.post("/api/mcp/subscribe-resource", async (req, res) => {
+    try {
+      const requestSchema = serverRefSchema.extend({
+        uri: z.string().min(1),
+        subscribed: z.boolean().default(true),
+      });
+
+      const { serverId, uri, subscribed } = requestSchema.parse(req.body);
+      const config = await getServerConfig(serverId);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Server not found" });
+      }
+      const result = await setMCPResourceSubscription({ id: serverId, config }, uri, subscribed);
+
+      res.json(result);
+    } catch (error) {
+      log.error('MCP resource subscription error', { error });
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid request"
+      });
+    }
+  });
+
   // Serve uploaded files
   app.get("/api/files/:filename", (req, res) => {
     try {
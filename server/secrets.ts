@@ -0,0 +1,99 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'secrets' });
+
+// Encrypted values look like "enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>" (base64 parts)
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+let ephemeralKey: EncryptionKey | undefined;
+
+// Accepts a 32-byte key as base64 or hex; any other string is treated as a passphrase
+function parseKey(value: string): EncryptionKey {
+  const trimmed = value.trim();
+  let key: Buffer;
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) {
+    key = Buffer.from(trimmed, 'hex');
+  } else {
+    const decoded = Buffer.from(trimmed, 'base64');
+    key = decoded.length === 32 ? decoded : createHash('sha256').update(trimmed).digest();
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+// The key new secrets are encrypted with (MCP_TOKEN_ENCRYPTION_KEY)
+function getCurrentKey(): EncryptionKey {
+  const configured = process.env.MCP_TOKEN_ENCRYPTION_KEY;
+  if (configured) {
+    return parseKey(configured);
+  }
+
+  // Without a configured key, secrets only survive until the server restarts
+  if (!ephemeralKey) {
+    log.warn('MCP_TOKEN_ENCRYPTION_KEY is not set; stored MCP tokens will be unreadable after a restart');
+    ephemeralKey = { id: 'ephemeral', key: randomBytes(32) };
+  }
+  return ephemeralKey;
+}
+
+// Keys that may still be needed to read older secrets (MCP_TOKEN_PREVIOUS_KEYS, comma-separated)
+function getPreviousKeys(): EncryptionKey[] {
+  return (process.env.MCP_TOKEN_PREVIOUS_KEYS || '')
+    .split(',')
+    .filter(value => value.trim())
+    .map(parseKey);
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const { id, key } = getCurrentKey();
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return ENCRYPTED_PREFIX + [id, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(value: string): string {
+  // Values written before encryption was introduced are stored as-is
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const [keyId, iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const match = [getCurrentKey(), ...getPreviousKeys()].find(candidate => candidate.id === keyId);
+  if (!match) {
+    throw new Error(`No encryption key available for stored secret (key id ${keyId})`);
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, match.key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+// Whether a stored value should be rewritten under the current key
+export function needsReencryption(value: string): boolean {
+  if (!isEncrypted(value)) {
+    return true;
+  }
+  const keyId = value.slice(ENCRYPTED_PREFIX.length).split(':')[0];
+  return keyId !== getCurrentKey().id;
+}
+
+// Short hint that identifies a secret without revealing it, e.g. "••••f3a9"
+export function maskSecret(secret: string): string {
+  return secret.length > 8 ? `••••${secret.slice(-4)}` : '••••';
+}
@@ -0,0 +1,36 @@
+import type { Request, Response } from "express";
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Whether the client asked for a Server-Sent Events response
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+// Switch the response into SSE mode and return a writer for named events
+export function openEventStream(res: Response): SendEvent {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  return (event, data) => {
+    if (res.writableEnded) {
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+}
+
+// AbortSignal that fires when the client goes away before the response finished
+export function abortOnDisconnect(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
@@ -1,7 +1,11 @@
-import { type User, type InsertUser, type MCPService, type InsertMCPService, type MCPTool, type InsertMCPTool, type ChatMessage, type InsertChatMessage, users, chatMessages } from "@shared/schema";
+import { type User, type InsertUser, type MCPService, type InsertMCPService, type MCPTool, type InsertMCPTool, type ChatMessage, type InsertChatMessage, type Conversation, type InsertConversation, type ToolAuditEntry, type InsertToolAuditEntry, users, mcpServices, mcpTools, chatMessages, conversations, toolAuditLog } from "@shared/schema";
+import type { MCPAuditActor, MCPAuditDecision } from "@shared/mcp-types";
 import { randomUUID } from "crypto";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, desc, and, or, lt, gte, lte, isNotNull, type SQL } from "drizzle-orm";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'storage' });
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -12,26 +16,92 @@ export interface IStorage {
   getService(id: string): Promise<MCPService | undefined>;
   createService(service: InsertMCPService): Promise<MCPService>;
   updateService(id: string, updates: Partial<MCPService>): Promise<MCPService>;
+  deleteService(id: string): Promise<void>;
   
   getToolsByService(serviceId: string): Promise<MCPTool[]>;
   createTool(tool: InsertMCPTool): Promise<MCPTool>;
   updateTool(id: string, updates: Partial<MCPTool>): Promise<MCPTool>;
+  replaceTools(serviceId: string, tools: InsertMCPTool[]): Promise<MCPTool[]>;
+  
+  getConversations(): Promise<Conversation[]>;
+  getConversation(id: string): Promise<Conversation | undefined>;
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation>;
+  deleteConversation(id: string): Promise<void>;
+  forkConversation(id: string, upToMessageId?: string): Promise<Conversation>;
   
-  getMessages(): Promise<ChatMessage[]>;
+  getMessages(conversationId?: string): Promise<ChatMessage[]>;
+  getMessagePage(conversationId: string | undefined, options: MessagePageOptions): Promise<MessagePage>;
   createMessage(message: InsertChatMessage): Promise<ChatMessage>;
+
+  // The audit trail is append-only: there is no update or delete
+  createAuditEntry(entry: InsertToolAuditEntry): Promise<ToolAuditEntry>;
+  getAuditEntries(filter: AuditFilter, options?: AuditPageOptions): Promise<AuditPage>;
+}
+
+export interface AuditFilter {
+  serverId?: string;
+  toolName?: string;
+  conversationId?: string;
+  actor?: MCPAuditActor;
+  decision?: MCPAuditDecision;
+  errorsOnly?: boolean;
+  since?: Date;
+  until?: Date;
+}
+
+export interface AuditPageOptions {
+  // All matching entries when unset
+  limit?: number;
+  // Return only entries older than this entry id
+  before?: string;
+}
+
+// Matching entries, newest first
+export interface AuditPage {
+  entries: ToolAuditEntry[];
+  hasMore: boolean;
+}
+
+export interface MessagePageOptions {
+  limit: number;
+  // Return only messages older than this message id
+  before?: string;
+}
+
+// The newest messages of a page window, in chronological order
+export interface MessagePage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+// Messages copied into a fork: the whole thread, or up to and including one message
+function messagesForFork(messages: ChatMessage[], upToMessageId?: string): ChatMessage[] {
+  if (!upToMessageId) {
+    return messages;
+  }
+  const index = messages.findIndex(message => message.id === upToMessageId);
+  if (index === -1) {
+    throw new Error(`Message ${upToMessageId} not found`);
+  }
+  return messages.slice(0, index + 1);
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private services: Map<string, MCPService>;
   private tools: Map<string, MCPTool>;
+  private conversations: Map<string, Conversation>;
   private messages: Map<string, ChatMessage>;
+  private auditEntries: ToolAuditEntry[];
 
   constructor() {
     this.users = new Map();
     this.services = new Map();
     this.tools = new Map();
+    this.conversations = new Map();
     this.messages = new Map();
+    this.auditEntries = [];
     
     // Initialize with sample data
     this.initializeData();
@@ -77,6 +147,7 @@ export class MemStorage implements IStorage {
       icon: service.icon || null,
       url: service.url || null,
       token: service.token || null,
+      tokenHint: service.tokenHint || null,
       connected: service.connected || false,
       config: service.config || {},
       createdAt: new Date(),
@@ -96,6 +167,13 @@ export class MemStorage implements IStorage {
     return updatedService;
   }
 
+  async deleteService(id: string): Promise<void> {
+    this.services.delete(id);
+    for (const tool of await this.getToolsByService(id)) {
+      this.tools.delete(tool.id);
+    }
+  }
+
   async getToolsByService(serviceId: string): Promise<MCPTool[]> {
     return Array.from(this.tools.values()).filter(tool => tool.serviceId === serviceId);
   }
@@ -121,24 +199,150 @@ export class MemStorage implements IStorage {
     return updatedTool;
   }
 
-  async getMessages(): Promise<ChatMessage[]> {
-    return Array.from(this.messages.values()).sort((a, b) => 
-      (a.timestamp?.getTime() || 0) - (b.timestamp?.getTime() || 0)
+  async replaceTools(serviceId: string, tools: InsertMCPTool[]): Promise<MCPTool[]> {
+    for (const tool of await this.getToolsByService(serviceId)) {
+      this.tools.delete(tool.id);
+    }
+    return Promise.all(tools.map(tool => this.createTool({ ...tool, serviceId })));
+  }
+
+  async getConversations(): Promise<Conversation[]> {
+    return Array.from(this.conversations.values()).sort((a, b) =>
+      (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0)
     );
   }
 
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const id = randomUUID();
+    const newConversation: Conversation = {
+      ...conversation,
+      id,
+      userId: conversation.userId || null,
+      forkedFromId: conversation.forkedFromId || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.conversations.set(id, newConversation);
+    return newConversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) {
+      throw new Error(`Conversation ${id} not found`);
+    }
+    const updatedConversation = { ...conversation, ...updates, id, updatedAt: new Date() };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    this.conversations.delete(id);
+    for (const [messageId, message] of Array.from(this.messages.entries())) {
+      if (message.conversationId === id) {
+        this.messages.delete(messageId);
+      }
+    }
+  }
+
+  async forkConversation(id: string, upToMessageId?: string): Promise<Conversation> {
+    const source = this.conversations.get(id);
+    if (!source) {
+      throw new Error(`Conversation ${id} not found`);
+    }
+    const messages = messagesForFork(await this.getMessages(id), upToMessageId);
+    const fork = await this.createConversation({
+      title: `${source.title} (fork)`,
+      userId: source.userId,
+      forkedFromId: source.id,
+    });
+    for (const { id: _id, timestamp: _timestamp, ...message } of messages) {
+      await this.createMessage({ ...message, conversationId: fork.id });
+    }
+    return fork;
+  }
+
+  async getMessages(conversationId?: string): Promise<ChatMessage[]> {
+    return Array.from(this.messages.values())
+      .filter(message => !conversationId || message.conversationId === conversationId)
+      .sort((a, b) => 
+        (a.timestamp?.getTime() || 0) - (b.timestamp?.getTime() || 0)
+      );
+  }
+
+  async getMessagePage(conversationId: string | undefined, { limit, before }: MessagePageOptions): Promise<MessagePage> {
+    let messages = await this.getMessages(conversationId);
+    if (before) {
+      const index = messages.findIndex(message => message.id === before);
+      messages = index === -1 ? [] : messages.slice(0, index);
+    }
+    return {
+      messages: messages.slice(-limit),
+      hasMore: messages.length > limit,
+    };
+  }
+
   async createMessage(message: InsertChatMessage): Promise<ChatMessage> {
     const id = randomUUID();
     const newMessage: ChatMessage = {
       ...message,
       id,
+      conversationId: message.conversationId || null,
       userId: message.userId || null,
       timestamp: new Date(),
       attachedFiles: message.attachedFiles || [],
+      toolCalls: message.toolCalls || [],
     };
     this.messages.set(id, newMessage);
+
+    // Keep the thread list ordered by latest activity
+    const conversation = message.conversationId ? this.conversations.get(message.conversationId) : undefined;
+    if (conversation) {
+      this.conversations.set(conversation.id, { ...conversation, updatedAt: new Date() });
+    }
     return newMessage;
   }
+
+  async createAuditEntry(entry: InsertToolAuditEntry): Promise<ToolAuditEntry> {
+    const newEntry: ToolAuditEntry = {
+      ...entry,
+      id: randomUUID(),
+      timestamp: new Date(),
+      userId: entry.userId || null,
+      conversationId: entry.conversationId || null,
+      arguments: entry.arguments || {},
+      resultSummary: entry.resultSummary || null,
+      error: entry.error || null,
+      policy: entry.policy || null,
+      approval: entry.approval || null,
+    };
+    this.auditEntries.push(newEntry);
+    return newEntry;
+  }
+
+  async getAuditEntries(filter: AuditFilter, { limit, before }: AuditPageOptions = {}): Promise<AuditPage> {
+    let entries = this.auditEntries
+      .filter(entry => (!filter.serverId || entry.serverId === filter.serverId)
+        && (!filter.toolName || entry.toolName === filter.toolName)
+        && (!filter.conversationId || entry.conversationId === filter.conversationId)
+        && (!filter.actor || entry.actor === filter.actor)
+        && (!filter.decision || entry.decision === filter.decision)
+        && (!filter.errorsOnly || entry.error !== null)
+        && (!filter.since || entry.timestamp >= filter.since)
+        && (!filter.until || entry.timestamp <= filter.until))
+      .reverse();
+    if (before) {
+      const index = entries.findIndex(entry => entry.id === before);
+      entries = index === -1 ? [] : entries.slice(index + 1);
+    }
+    return limit === undefined
+      ? { entries, hasMore: false }
+      : { entries: entries.slice(0, limit), hasMore: entries.length > limit };
+  }
 }
 
 export class DatabaseStorage implements IStorage {
@@ -147,7 +351,7 @@ export class DatabaseStorage implements IStorage {
       const [user] = await db.select().from(users).where(eq(users.id, id));
       return user || undefined;
     } catch (error) {
-      console.error('Database error in getUser:', error);
+      log.error('Database error in getUser', { error });
       return undefined;
     }
   }
@@ -157,7 +361,7 @@ export class DatabaseStorage implements IStorage {
       const [user] = await db.select().from(users).where(eq(users.username, username));
       return user || undefined;
     } catch (error) {
-      console.error('Database error in getUserByUsername:', error);
+      log.error('Database error in getUserByUsername', { error });
       return undefined;
     }
   }
@@ -171,57 +375,254 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getServices(): Promise<MCPService[]> {
-    // Services are managed in-memory/localStorage, not in database
-    return [];
+    return await db.select().from(mcpServices).orderBy(mcpServices.createdAt);
   }
 
   async getService(id: string): Promise<MCPService | undefined> {
-    return undefined;
+    const [service] = await db.select().from(mcpServices).where(eq(mcpServices.id, id));
+    return service || undefined;
   }
 
   async createService(service: InsertMCPService): Promise<MCPService> {
-    throw new Error("Services are managed client-side");
+    const [newService] = await db
+      .insert(mcpServices)
+      .values(service)
+      .returning();
+    return newService;
   }
 
   async updateService(id: string, updates: Partial<MCPService>): Promise<MCPService> {
-    throw new Error("Services are managed client-side");
+    const [updatedService] = await db
+      .update(mcpServices)
+      .set({ ...updates, id, updatedAt: new Date() })
+      .where(eq(mcpServices.id, id))
+      .returning();
+    if (!updatedService) {
+      throw new Error(`Service ${id} not found`);
+    }
+    return updatedService;
+  }
+
+  async deleteService(id: string): Promise<void> {
+    await db.delete(mcpTools).where(eq(mcpTools.serviceId, id));
+    await db.delete(mcpServices).where(eq(mcpServices.id, id));
   }
 
   async getToolsByService(serviceId: string): Promise<MCPTool[]> {
-    return [];
+    return await db.select().from(mcpTools).where(eq(mcpTools.serviceId, serviceId));
   }
 
   async createTool(tool: InsertMCPTool): Promise<MCPTool> {
-    throw new Error("Tools are managed client-side");
+    const [newTool] = await db
+      .insert(mcpTools)
+      .values(tool)
+      .returning();
+    return newTool;
   }
 
   async updateTool(id: string, updates: Partial<MCPTool>): Promise<MCPTool> {
-    throw new Error("Tools are managed client-side");
+    const [updatedTool] = await db
+      .update(mcpTools)
+      .set({ ...updates, id })
+      .where(eq(mcpTools.id, id))
+      .returning();
+    if (!updatedTool) {
+      throw new Error(`Tool ${id} not found`);
+    }
+    return updatedTool;
   }
 
-  async getMessages(): Promise<ChatMessage[]> {
+  async replaceTools(serviceId: string, tools: InsertMCPTool[]): Promise<MCPTool[]> {
+    await db.delete(mcpTools).where(eq(mcpTools.serviceId, serviceId));
+    if (tools.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(mcpTools)
+      .values(tools.map(tool => ({ ...tool, serviceId })))
+      .returning();
+  }
+
+  async getConversations(): Promise<Conversation[]> {
+    return await db.select().from(conversations).orderBy(desc(conversations.updatedAt));
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation || undefined;
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const [newConversation] = await db
+      .insert(conversations)
+      .values(conversation)
+      .returning();
+    return newConversation;
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation> {
+    const [updatedConversation] = await db
+      .update(conversations)
+      .set({ ...updates, id, updatedAt: new Date() })
+      .where(eq(conversations.id, id))
+      .returning();
+    if (!updatedConversation) {
+      throw new Error(`Conversation ${id} not found`);
+    }
+    return updatedConversation;
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    await db.delete(chatMessages).where(eq(chatMessages.conversationId, id));
+    await db.delete(conversations).where(eq(conversations.id, id));
+  }
+
+  async forkConversation(id: string, upToMessageId?: string): Promise<Conversation> {
+    const source = await this.getConversation(id);
+    if (!source) {
+      throw new Error(`Conversation ${id} not found`);
+    }
+    const messages = messagesForFork(await this.getMessages(id), upToMessageId);
+    const fork = await this.createConversation({
+      title: `${source.title} (fork)`,
+      userId: source.userId,
+      forkedFromId: source.id,
+    });
+    if (messages.length > 0) {
+      await db.insert(chatMessages).values(messages.map(({ id: _id, ...message }) => ({
+        ...message,
+        conversationId: fork.id,
+      })));
+    }
+    return fork;
+  }
+
+  async getMessages(conversationId?: string): Promise<ChatMessage[]> {
     try {
-      const messages = await db.select().from(chatMessages).orderBy(chatMessages.timestamp);
+      const query = db.select().from(chatMessages);
+      const messages = await (conversationId
+        ? query.where(eq(chatMessages.conversationId, conversationId))
+        : query
+      ).orderBy(chatMessages.timestamp, chatMessages.id);
       return messages.map(msg => ({
         ...msg,
-        attachedFiles: msg.attachedFiles as any[] || []
+        attachedFiles: msg.attachedFiles as any[] || [],
+        toolCalls: msg.toolCalls as any[] || []
       }));
     } catch (error) {
-      console.error('Database error in getMessages:', error);
+      log.error('Database error in getMessages', { error });
       return [];
     }
   }
 
+  async getMessagePage(conversationId: string | undefined, { limit, before }: MessagePageOptions): Promise<MessagePage> {
+    const conditions: SQL[] = [];
+    if (conversationId) {
+      conditions.push(eq(chatMessages.conversationId, conversationId));
+    }
+    if (before) {
+      const [cursor] = await db.select().from(chatMessages).where(eq(chatMessages.id, before));
+      if (!cursor?.timestamp) {
+        return { messages: [], hasMore: false };
+      }
+      // Messages written in the same instant (e.g. copied into a fork) are ordered by id
+      conditions.push(or(
+        lt(chatMessages.timestamp, cursor.timestamp),
+        and(eq(chatMessages.timestamp, cursor.timestamp), lt(chatMessages.id, cursor.id))
+      )!);
+    }
+
+    // Fetch one extra row to learn whether older messages remain
+    const rows = await db
+      .select()
+      .from(chatMessages)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(chatMessages.timestamp), desc(chatMessages.id))
+      .limit(limit + 1);
+
+    return {
+      messages: rows.slice(0, limit).reverse().map(msg => ({
+        ...msg,
+        attachedFiles: msg.attachedFiles as any[] || [],
+        toolCalls: msg.toolCalls as any[] || []
+      })),
+      hasMore: rows.length > limit,
+    };
+  }
+
   async createMessage(message: InsertChatMessage): Promise<ChatMessage> {
     const [newMessage] = await db
       .insert(chatMessages)
       .values(message)
       .returning();
+    if (message.conversationId) {
+      await db
+        .update(conversations)
+        .set({ updatedAt: new Date() })
+        .where(eq(conversations.id, message.conversationId));
+    }
     return {
       ...newMessage,
-      attachedFiles: newMessage.attachedFiles as any[] || []
+      attachedFiles: newMessage.attachedFiles as any[] || [],
+      toolCalls: newMessage.toolCalls as any[] || []
     };
   }
+
+  async createAuditEntry(entry: InsertToolAuditEntry): Promise<ToolAuditEntry> {
+    const [newEntry] = await db.insert(toolAuditLog).values(entry).returning();
+    return newEntry;
+  }
+
+  async getAuditEntries(filter: AuditFilter, { limit, before }: AuditPageOptions = {}): Promise<AuditPage> {
+    const conditions: SQL[] = [];
+    if (filter.serverId) {
+      conditions.push(eq(toolAuditLog.serverId, filter.serverId));
+    }
+    if (filter.toolName) {
+      conditions.push(eq(toolAuditLog.toolName, filter.toolName));
+    }
+    if (filter.conversationId) {
+      conditions.push(eq(toolAuditLog.conversationId, filter.conversationId));
+    }
+    if (filter.actor) {
+      conditions.push(eq(toolAuditLog.actor, filter.actor));
+    }
+    if (filter.decision) {
+      conditions.push(eq(toolAuditLog.decision, filter.decision));
+    }
+    if (filter.errorsOnly) {
+      conditions.push(isNotNull(toolAuditLog.error));
+    }
+    if (filter.since) {
+      conditions.push(gte(toolAuditLog.timestamp, filter.since));
+    }
+    if (filter.until) {
+      conditions.push(lte(toolAuditLog.timestamp, filter.until));
+    }
+    if (before) {
+      const [cursor] = await db.select().from(toolAuditLog).where(eq(toolAuditLog.id, before));
+      if (!cursor) {
+        return { entries: [], hasMore: false };
+      }
+      // Entries written in the same instant are ordered by id
+      conditions.push(or(
+        lt(toolAuditLog.timestamp, cursor.timestamp),
+        and(eq(toolAuditLog.timestamp, cursor.timestamp), lt(toolAuditLog.id, cursor.id))
+      )!);
+    }
+
+    const query = db
+      .select()
+      .from(toolAuditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(toolAuditLog.timestamp), desc(toolAuditLog.id));
+    if (limit === undefined) {
+      return { entries: await query, hasMore: false };
+    }
+    // Fetch one extra row to learn whether older entries remain
+    const rows = await query.limit(limit + 1);
+    return { entries: rows.slice(0, limit), hasMore: rows.length > limit };
+  }
 }
 
 // Create storage instance that can switch between memory and database
@@ -238,17 +639,57 @@ class HybridStorage implements IStorage {
     this.useDatabase = Boolean(process.env.DATABASE_URL);
   }
 
-  // For chat messages, use database if configured, otherwise use memory
-  async getMessages(): Promise<ChatMessage[]> {
+  // For conversations and chat messages, use database if configured, otherwise use memory
+  private async withFallback<T>(operation: (storage: IStorage) => Promise<T>): Promise<T> {
     if (this.useDatabase) {
       try {
-        return await this.dbStorage.getMessages();
+        return await operation(this.dbStorage);
       } catch (error) {
-        console.error('Database fallback to memory storage:', error);
-        return await this.memStorage.getMessages();
+        log.warn('Database fallback to memory storage', { error });
+        return await operation(this.memStorage);
       }
     }
-    return await this.memStorage.getMessages();
+    return await operation(this.memStorage);
+  }
+
+  async getConversations(): Promise<Conversation[]> {
+    return this.withFallback(storage => storage.getConversations());
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    return this.withFallback(storage => storage.getConversation(id));
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    return this.withFallback(storage => storage.createConversation(conversation));
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation> {
+    return this.withFallback(storage => storage.updateConversation(id, updates));
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    return this.withFallback(storage => storage.deleteConversation(id));
+  }
+
+  async forkConversation(id: string, upToMessageId?: string): Promise<Conversation> {
+    return this.withFallback(storage => storage.forkConversation(id, upToMessageId));
+  }
+
+  async getMessages(conversationId?: string): Promise<ChatMessage[]> {
+    if (this.useDatabase) {
+      try {
+        return await this.dbStorage.getMessages(conversationId);
+      } catch (error) {
+        log.warn('Database fallback to memory storage', { error });
+        return await this.memStorage.getMessages(conversationId);
+      }
+    }
+    return await this.memStorage.getMessages(conversationId);
+  }
+
+  async getMessagePage(conversationId: string | undefined, options: MessagePageOptions): Promise<MessagePage> {
+    return this.withFallback(storage => storage.getMessagePage(conversationId, options));
   }
 
   async createMessage(message: InsertChatMessage): Promise<ChatMessage> {
@@ -256,14 +697,22 @@ class HybridStorage implements IStorage {
       try {
         return await this.dbStorage.createMessage(message);
       } catch (error) {
-        console.error('Database fallback to memory storage:', error);
+        log.warn('Database fallback to memory storage', { error });
         return await this.memStorage.createMessage(message);
       }
     }
     return await this.memStorage.createMessage(message);
   }
 
-  // All other methods use memory storage
+  async createAuditEntry(entry: InsertToolAuditEntry): Promise<ToolAuditEntry> {
+    return this.withFallback(storage => storage.createAuditEntry(entry));
+  }
+
+  async getAuditEntries(filter: AuditFilter, options?: AuditPageOptions): Promise<AuditPage> {
+    return this.withFallback(storage => storage.getAuditEntries(filter, options));
+  }
+
+  // Users are kept in memory storage
   async getUser(id: string): Promise<User | undefined> {
     return this.memStorage.getUser(id);
   }
@@ -276,32 +725,41 @@ class HybridStorage implements IStorage {
     return this.memStorage.createUser(user);
   }
 
+  // The MCP server registry follows the same database-or-memory rule
   async getServices(): Promise<MCPService[]> {
-    return this.memStorage.getServices();
+    return this.withFallback(storage => storage.getServices());
   }
 
   async getService(id: string): Promise<MCPService | undefined> {
-    return this.memStorage.getService(id);
+    return this.withFallback(storage => storage.getService(id));
   }
 
   async createService(service: InsertMCPService): Promise<MCPService> {
-    return this.memStorage.createService(service);
+    return this.withFallback(storage => storage.createService(service));
   }
 
   async updateService(id: string, updates: Partial<MCPService>): Promise<MCPService> {
-    return this.memStorage.updateService(id, updates);
+    return this.withFallback(storage => storage.updateService(id, updates));
+  }
+
+  async deleteService(id: string): Promise<void> {
+    return this.withFallback(storage => storage.deleteService(id));
   }
 
   async getToolsByService(serviceId: string): Promise<MCPTool[]> {
-    return this.memStorage.getToolsByService(serviceId);
+    return this.withFallback(storage => storage.getToolsByService(serviceId));
   }
 
   async createTool(tool: InsertMCPTool): Promise<MCPTool> {
-    return this.memStorage.createTool(tool);
+    return this.withFallback(storage => storage.createTool(tool));
   }
 
   async updateTool(id: string, updates: Partial<MCPTool>): Promise<MCPTool> {
-    return this.memStorage.updateTool(id, updates);
+    return this.withFallback(storage => storage.updateTool(id, updates));
+  }
+
+  async replaceTools(serviceId: string, tools: InsertMCPTool[]): Promise<MCPTool[]> {
+    return this.withFallback(storage => storage.replaceTools(serviceId, tools));
   }
 }
 
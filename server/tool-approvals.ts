@@ -0,0 +1,129 @@
+import type { AgentStreamEvent, MCPAgentToolCall, MCPApprovalScope, MCPPolicyDecision, MCPTool, MCPToolCallApproval } from "@shared/mcp-types";
+import { evaluatePolicies } from "./tool-policy";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'agent' });
+
+// A tool call left unanswered this long is denied, so the run does not hang forever
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PendingApproval {
+  conversationId: string;
+  serverId: string;
+  toolName: string;
+  resolve: (approval: MCPToolCallApproval) => void;
+}
+
+// Tool calls waiting for the user, by tool call id
+const pending = new Map<string, PendingApproval>();
+
+// "serverId:toolName" ids the user allowed for the rest of a conversation, by conversation id.
+// Kept in memory: after a restart the user is asked again.
+const conversationAllowances = new Map<string, Set<string>>();
+
+function toolId(serverId: string, toolName: string): string {
+  return `${serverId}:${toolName}`;
+}
+
+// Decides whether the agent may make a tool call. Resolves with the policy decision and,
+// when the user was asked or an earlier "always allow" applied, the approval.
+export type ToolCallApprover = (
+  toolCall: MCPAgentToolCall,
+  tool: MCPTool
+) => Promise<{ policy: MCPPolicyDecision; approval?: MCPToolCallApproval }>;
+
+// An approver for one chat run. The policies decide first; calls they leave to the user
+// are sent to the browser as a tool_approval_request event, and the run waits until the
+// user answers, the request times out or the run is cancelled. Without an event stream
+// there is nobody to ask, so such calls are denied.
+export function createToolApprover({
+  conversationId,
+  emit,
+  signal,
+}: {
+  conversationId: string;
+  emit?: (event: AgentStreamEvent) => void;
+  signal?: AbortSignal;
+}): ToolCallApprover {
+  return async (toolCall, tool) => {
+    const riskLevel = tool.riskLevel || 'medium';
+    const policy = await evaluatePolicies(toolCall, riskLevel);
+    if (policy.effect !== 'ask') {
+      return { policy };
+    }
+    // "Always allow" cannot override a rule that requires asking
+    if (!policy.ruleId && tool.alwaysAllowed) {
+      return { policy, approval: { status: 'approved', scope: 'server', remembered: true } };
+    }
+    if (!policy.ruleId && conversationAllowances.get(conversationId)?.has(toolId(toolCall.serverId, toolCall.toolName))) {
+      return { policy, approval: { status: 'approved', scope: 'conversation', remembered: true } };
+    }
+    if (!emit || signal?.aborted) {
+      return { policy, approval: { status: 'denied' } };
+    }
+
+    const approval = await new Promise<MCPToolCallApproval>(resolve => {
+      const finish = (result: MCPToolCallApproval) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        pending.delete(toolCall.id);
+        resolve(result);
+      };
+      const onAbort = () => finish({ status: 'denied' });
+      const timer = setTimeout(() => {
+        log.warn('Tool call approval timed out', { tool: toolCall.toolName, server: toolCall.serverName });
+        finish({ status: 'denied' });
+      }, APPROVAL_TIMEOUT_MS);
+      signal?.addEventListener('abort', onAbort);
+      pending.set(toolCall.id, { conversationId, serverId: toolCall.serverId, toolName: toolCall.toolName, resolve: finish });
+
+      emit({
+        type: 'tool_approval_request',
+        request: {
+          id: toolCall.id,
+          toolCall: { ...toolCall, approval: { status: 'pending' }, policy },
+          riskLevel,
+          riskReason: tool.riskReason,
+          ...(policy.ruleId && { policyRuleId: policy.ruleId }),
+        },
+      });
+    });
+
+    emit({ type: 'tool_approval_end', id: toolCall.id, approval });
+    return { policy, approval };
+  };
+}
+
+// Answer a waiting tool call. Returns the call's server and tool, or undefined if no call
+// with this id is waiting (it was answered, timed out or its run ended). Allowing a tool
+// for its server is stored by the caller, with the server's other settings.
+export function resolveToolApproval(
+  id: string,
+  approved: boolean,
+  scope: MCPApprovalScope = 'once'
+): { serverId: string; toolName: string } | undefined {
+  const entry = pending.get(id);
+  if (!entry) {
+    return undefined;
+  }
+  if (approved && scope === 'conversation') {
+    const allowed = conversationAllowances.get(entry.conversationId) || new Set<string>();
+    allowed.add(toolId(entry.serverId, entry.toolName));
+    conversationAllowances.set(entry.conversationId, allowed);
+  }
+  log.info('Tool call approval answered', { tool: entry.toolName, serverId: entry.serverId, approved, scope });
+  entry.resolve(approved ? { status: 'approved', scope } : { status: 'denied' });
+  return { serverId: entry.serverId, toolName: entry.toolName };
+}
+
+export function forgetConversationApprovals(conversationId: string): void {
+  conversationAllowances.delete(conversationId);
+}
+
+// Drop "allow for this conversation" choices for tools whose definition changed,
+// since the user allowed the tool as it was
+export function forgetToolApprovals(toolIds: string[]): void {
+  for (const allowed of Array.from(conversationAllowances.values())) {
+    toolIds.forEach(id => allowed.delete(id));
+  }
+}
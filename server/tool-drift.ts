@@ -0,0 +1,50 @@
+import type { MCPTool, MCPToolChange, MCPToolDrift } from "@shared/mcp-types";
+
+// JSON with object keys sorted, so equal schemas compare equal whatever the key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function compareTool(before: MCPTool, after: MCPTool): MCPToolChange | undefined {
+  const descriptionChanged = (before.description || '') !== (after.description || '');
+  const schemaChanged = canonicalJson(before.inputSchema) !== canonicalJson(after.inputSchema);
+  return descriptionChanged || schemaChanged
+    ? { name: after.name, before, after, descriptionChanged, schemaChanged }
+    : undefined;
+}
+
+// Whether a tool is no longer the one the user saw: its description or input schema changed
+export function toolDefinitionChanged(before: MCPTool, after: MCPTool): boolean {
+  return compareTool(before, after) !== undefined;
+}
+
+export function diffTools(before: MCPTool[], after: MCPTool[]): MCPToolDrift {
+  const previous = new Map(before.map(tool => [tool.name, tool]));
+  const current = new Map(after.map(tool => [tool.name, tool]));
+  const changed: MCPToolChange[] = [];
+  for (const tool of after) {
+    const old = previous.get(tool.name);
+    const change = old && compareTool(old, tool);
+    if (change) {
+      changed.push(change);
+    }
+  }
+  return {
+    added: after.filter(tool => !previous.has(tool.name)),
+    removed: before.filter(tool => !current.has(tool.name)),
+    changed,
+  };
+}
+
+export function hasDrift(drift: MCPToolDrift): boolean {
+  return drift.added.length > 0 || drift.removed.length > 0 || drift.changed.length > 0;
+}
@@ -0,0 +1,179 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import YAML from "yaml";
+import type { MCPPolicyArgumentCondition, MCPPolicyDecision, MCPPolicyRule, MCPRiskLevel } from "@shared/mcp-types";
+import { logger } from "./logger";
+
+const log = logger.child({ source: 'policy' });
+
+const DEFAULT_POLICY_FILE = 'mcp-policies.yaml';
+
+const regexSchema = z.string().refine(pattern => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid regular expression' });
+
+const argumentConditionSchema = z.object({
+  in: z.array(z.string()).optional(),
+  notIn: z.array(z.string()).optional(),
+  matches: regexSchema.optional(),
+  notMatches: regexSchema.optional(),
+}).strict();
+
+const ruleSchema = z.object({
+  id: z.string().trim().min(1),
+  description: z.string().optional(),
+  effect: z.enum(['allow', 'deny', 'ask']),
+  server: z.string().optional(),
+  tool: z.string().optional(),
+  riskLevels: z.array(z.enum(['low', 'medium', 'high'])).optional(),
+  arguments: z.record(argumentConditionSchema).optional(),
+}).strict();
+
+export const policyRulesSchema = z.array(ruleSchema).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Duplicate rule id "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+// The file may hold the list of rules or an object with a rules key
+const policyFileSchema = z.union([z.object({ rules: policyRulesSchema }), policyRulesSchema]);
+
+export interface PolicySet {
+  path: string;
+  format: 'json' | 'yaml';
+  rules: MCPPolicyRule[];
+  // Why the file could not be used; the rules last read from it still apply
+  error?: string;
+}
+
+// Rules as last read from the file, and the file's modification time then
+let loaded: { mtimeMs: number; rules: MCPPolicyRule[]; error?: string } | undefined;
+
+// Set with MCP_POLICY_FILE; relative paths are resolved from the working directory
+function policyFilePath(): string {
+  return path.resolve(process.env.MCP_POLICY_FILE || DEFAULT_POLICY_FILE);
+}
+
+function policyFormat(file: string): 'json' | 'yaml' {
+  return path.extname(file).toLowerCase() === '.json' ? 'json' : 'yaml';
+}
+
+export function formatPolicyError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.errors.map(issue => `${issue.path.join('.') || 'rules'}: ${issue.message}`).join('; ');
+  }
+  return error instanceof Error ? error.message : 'Invalid policy file';
+}
+
+// Read the policy file again when it changed since it was last read. A file that
+// cannot be parsed is reported, and the previous rules stay in force meanwhile.
+export async function getPolicies(): Promise<PolicySet> {
+  const file = policyFilePath();
+  const base = { path: file, format: policyFormat(file) };
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(file)).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      loaded = { mtimeMs: 0, rules: [] };
+      return { ...base, rules: [] };
+    }
+    log.error('Cannot read tool policies; keeping the previous rules', { file, error });
+    return { ...base, rules: loaded?.rules || [], error: formatPolicyError(error) };
+  }
+
+  if (!loaded || loaded.mtimeMs !== mtimeMs) {
+    const previous = loaded?.rules || [];
+    try {
+      const parsed = policyFileSchema.parse(YAML.parse(await fs.readFile(file, 'utf-8')) ?? []);
+      loaded = { mtimeMs, rules: Array.isArray(parsed) ? parsed : parsed.rules };
+      log.info('Loaded tool policies', { file, rules: loaded.rules.length });
+    } catch (error) {
+      loaded = { mtimeMs, rules: previous, error: formatPolicyError(error) };
+      log.error('Cannot read tool policies; keeping the previous rules', { file, error: loaded.error });
+    }
+  }
+  return { ...base, rules: loaded.rules, ...(loaded.error && { error: loaded.error }) };
+}
+
+// Validate the rules and write them to the policy file, in the file's format
+export async function savePolicies(rules: unknown): Promise<PolicySet> {
+  const parsed = policyRulesSchema.parse(rules);
+  const file = policyFilePath();
+  const format = policyFormat(file);
+  const content = format === 'json'
+    ? JSON.stringify({ rules: parsed }, null, 2) + '\n'
+    : YAML.stringify({ rules: parsed });
+  await fs.writeFile(file, content, 'utf-8');
+  loaded = { mtimeMs: (await fs.stat(file)).mtimeMs, rules: parsed };
+  log.info('Saved tool policies', { file, rules: parsed.length });
+  return { path: file, format, rules: parsed };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+function argumentText(value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function conditionHolds(condition: MCPPolicyArgumentCondition, value: string | undefined): boolean {
+  if (condition.in && (value === undefined || !condition.in.includes(value))) {
+    return false;
+  }
+  if (condition.notIn && value !== undefined && condition.notIn.includes(value)) {
+    return false;
+  }
+  if (condition.matches && (value === undefined || !new RegExp(condition.matches).test(value))) {
+    return false;
+  }
+  if (condition.notMatches && value !== undefined && new RegExp(condition.notMatches).test(value)) {
+    return false;
+  }
+  return true;
+}
+
+function ruleMatches(
+  rule: MCPPolicyRule,
+  call: { serverId: string; toolName: string; arguments: Record<string, unknown> },
+  riskLevel: MCPRiskLevel
+): boolean {
+  return (!rule.server || globToRegExp(rule.server).test(call.serverId))
+    && (!rule.tool || globToRegExp(rule.tool).test(call.toolName))
+    && (!rule.riskLevels || rule.riskLevels.includes(riskLevel))
+    && Object.entries(rule.arguments || {}).every(([name, condition]) => conditionHolds(condition, argumentText(call.arguments[name])));
+}
+
+// Decide a tool call by the first matching rule. Without one, low risk tools run and
+// others are asked about.
+export async function evaluatePolicies(
+  call: { serverId: string; toolName: string; arguments: Record<string, unknown> },
+  riskLevel: MCPRiskLevel
+): Promise<MCPPolicyDecision> {
+  const { rules } = await getPolicies();
+  const rule = rules.find(candidate => ruleMatches(candidate, call, riskLevel));
+  if (rule) {
+    return { effect: rule.effect, ruleId: rule.id, reason: rule.description || `Matched policy rule "${rule.id}"` };
+  }
+  return riskLevel === 'low'
+    ? { effect: 'allow', reason: 'No policy rule matched; low risk tools run without asking' }
+    : { effect: 'ask', reason: `No policy rule matched; ${riskLevel} risk tools need approval` };
+}
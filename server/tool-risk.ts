@@ -0,0 +1,95 @@
+import type { MCPRiskLevel, MCPTool } from "@shared/mcp-types";
+
+// Words in a tool's name that say what it does. Names are split into words first,
+// so "deleteRepo", "delete_repo" and "delete-repo" all match "delete".
+const HIGH_RISK_WORDS = new Set([
+  'delete', 'remove', 'rm', 'drop', 'destroy', 'purge', 'truncate', 'wipe', 'erase', 'kill', 'terminate',
+  'revoke', 'reset', 'force', 'exec', 'execute', 'shell', 'command', 'eval', 'sudo', 'transfer', 'pay',
+  'payment', 'refund', 'uninstall', 'shutdown', 'format', 'overwrite',
+]);
+const MEDIUM_RISK_WORDS = new Set([
+  'create', 'add', 'update', 'write', 'edit', 'modify', 'set', 'put', 'post', 'patch', 'insert', 'upload',
+  'send', 'push', 'commit', 'merge', 'move', 'rename', 'publish', 'deploy', 'install', 'email', 'message',
+  'comment', 'assign', 'close', 'open', 'approve', 'invite', 'schedule', 'book', 'run', 'start', 'stop',
+  'restart', 'save', 'import', 'submit', 'fork', 'archive', 'lock', 'unlock', 'enable', 'disable',
+]);
+const LOW_RISK_WORDS = new Set([
+  'get', 'list', 'read', 'search', 'fetch', 'find', 'query', 'describe', 'show', 'view', 'count', 'lookup',
+  'check', 'status', 'info', 'inspect', 'preview', 'browse', 'download', 'explain', 'summarize', 'validate',
+]);
+
+// Descriptions are only consulted for the clearest signs of harm
+const HIGH_RISK_DESCRIPTION = /\b(delet|remov|destroy|drop|purg|wip|eras|overwrit|execut)\w*|\b(permanent(ly)?|irreversibl[ey]|shell command|arbitrary (code|command)s?)\b/i;
+
+const LEVELS: MCPRiskLevel[] = ['low', 'medium', 'high'];
+
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function fromName(tool: MCPTool): MCPRiskLevel | undefined {
+  const words = nameWords(tool.name);
+  if (words.some(word => HIGH_RISK_WORDS.has(word))) {
+    return 'high';
+  }
+  if (words.some(word => MEDIUM_RISK_WORDS.has(word))) {
+    return 'medium';
+  }
+  if (words.some(word => LOW_RISK_WORDS.has(word))) {
+    return 'low';
+  }
+  return undefined;
+}
+
+// Risk level of a tool and why. Annotations are hints from the server, which may be
+// wrong or hostile, so a tool's name can raise the level they suggest but never lower it.
+export function classifyTool(tool: MCPTool): { level: MCPRiskLevel; reason: string } {
+  const byName = fromName(tool);
+  const byDescription = tool.description && HIGH_RISK_DESCRIPTION.test(tool.description) ? 'high' : undefined;
+  const heuristic = byName ?? byDescription;
+  const annotations = tool.annotations;
+
+  if (annotations && (annotations.readOnlyHint !== undefined || annotations.destructiveHint !== undefined)) {
+    let level: MCPRiskLevel;
+    let reason: string;
+    if (annotations.readOnlyHint) {
+      level = annotations.openWorldHint ? 'medium' : 'low';
+      reason = annotations.openWorldHint ? 'Read-only, but reaches outside systems' : 'Read-only';
+    } else if (annotations.destructiveHint === false) {
+      level = 'medium';
+      reason = annotations.idempotentHint ? 'Makes changes, but not destructive ones, and is safe to repeat' : 'Makes changes, but not destructive ones';
+    } else {
+      // The MCP default for a tool that is not read-only is destructive
+      level = 'high';
+      reason = 'May make destructive changes';
+    }
+    if (heuristic && LEVELS.indexOf(heuristic) > LEVELS.indexOf(level)) {
+      const raised = LEVELS[Math.min(LEVELS.indexOf(level) + 1, LEVELS.indexOf(heuristic))];
+      return { level: raised, reason: `${reason} per the server, but its ${byName ? 'name' : 'description'} suggests more` };
+    }
+    return { level, reason: `${reason} (server annotations)` };
+  }
+
+  if (byName === 'high' || (!byName && byDescription)) {
+    return { level: 'high', reason: `Its ${byName ? 'name' : 'description'} suggests destructive actions` };
+  }
+  if (byName === 'medium') {
+    return { level: 'medium', reason: 'Its name suggests it makes changes' };
+  }
+  if (byName === 'low') {
+    return { level: 'low', reason: 'Its name suggests it only reads' };
+  }
+  return { level: 'medium', reason: 'No annotations, and its name does not say what it does' };
+}
+
+// A tool with its risk level: the user's choice if they made one, otherwise the classified one
+export function withRiskLevel(tool: MCPTool, override?: MCPRiskLevel): MCPTool {
+  const { level, reason } = classifyTool(tool);
+  return override
+    ? { ...tool, riskLevel: override, riskReason: `Set by you (detected: ${level}, ${reason.charAt(0).toLowerCase()}${reason.slice(1)})`, riskOverridden: true }
+    : { ...tool, riskLevel: level, riskReason: reason, riskOverridden: false };
+}
@@ -1,10 +1,73 @@
 // MCP Server Configuration Types
+
+// The two ways MCP runs over HTTP: Streamable HTTP and the older HTTP+SSE
+export type MCPHttpTransport = 'streamable-http' | 'sse';
+
+// How an HTTP server's secret is sent: as a bearer token, as the password for
+// basic auth, or as an API key in a header of its own. With oauth there is no
+// pasted secret; the user signs in and tokens are obtained and refreshed server-side.
+export type MCPAuthScheme = 'none' | 'bearer' | 'basic' | 'api-key' | 'oauth';
+
+export const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+
+// File types the chat accepts as attachments
+export const CHAT_ATTACHMENT_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
 export interface MCPHttpConfig {
+  // Configs saved before stdio support have no transport and are HTTP
+  transport?: 'http';
   url: string;
+  // The server's secret, whichever auth scheme it is used with
   bearerToken?: string;
+  // Defaults to bearer when a secret is set
+  authScheme?: MCPAuthScheme;
+  // User name for basic auth
+  username?: string;
+  // Header carrying the secret for api-key auth (DEFAULT_API_KEY_HEADER if unset)
+  apiKeyHeader?: string;
+  // Extra headers sent with every request, such as tenant or routing ids
+  headers?: Record<string, string>;
+  // Recorded on first connection: Streamable HTTP is tried first, then HTTP+SSE
+  httpTransport?: MCPHttpTransport;
 }
 
-export type MCPServerConfig = MCPHttpConfig;
+// A local server launched by the Express server, speaking MCP over stdin/stdout
+export interface MCPStdioConfig {
+  transport: 'stdio';
+  command: string;
+  args?: string[];
+  // Added to a minimal inherited environment (PATH, HOME, ...), not the server's own
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export type MCPServerConfig = MCPHttpConfig | MCPStdioConfig;
+
+export function isStdioConfig(config: { transport?: string }): config is MCPStdioConfig {
+  return config.transport === 'stdio';
+}
+
+export type MCPRiskLevel = 'low' | 'medium' | 'high';
+
+// Hints a server gives about a tool's behavior. They are untrusted: a server can
+// claim anything about its own tools.
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  // Only meaningful when the tool is not read-only; the spec's default is true
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
 
 export interface MCPTool {
   name: string;
@@ -14,6 +77,30 @@ export interface MCPTool {
     properties?: Record<string, any>;
     required?: string[];
   };
+  annotations?: MCPToolAnnotations;
+  // Filled in by the server from the annotations and the tool's name, or set by the user
+  riskLevel?: MCPRiskLevel;
+  riskReason?: string;
+  riskOverridden?: boolean;
+  // The user chose to let the agent call this tool without asking each time
+  alwaysAllowed?: boolean;
+}
+
+// A tool whose definition differs from the one stored for its server
+export interface MCPToolChange {
+  name: string;
+  before: MCPTool;
+  after: MCPTool;
+  descriptionChanged: boolean;
+  schemaChanged: boolean;
+}
+
+// How a server's current tool list differs from the stored one. Changed descriptions
+// and schemas matter because the model trusts them (tool poisoning).
+export interface MCPToolDrift {
+  added: MCPTool[];
+  removed: MCPTool[];
+  changed: MCPToolChange[];
 }
 
 export interface MCPPrompt {
@@ -26,6 +113,12 @@ export interface MCPPrompt {
   }[];
 }
 
+// A message of an expanded prompt
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContentBlock;
+}
+
 export interface MCPResource {
   uri: string;
   name?: string;
@@ -33,6 +126,14 @@ export interface MCPResource {
   mimeType?: string;
 }
 
+// A family of resources addressed by an RFC 6570 URI template, e.g. "file:///{path}"
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name?: string;
+  description?: string;
+  mimeType?: string;
+}
+
 export interface MCPConnectionStatus {
   connected: boolean;
   lastTestSuccess?: boolean;
@@ -46,9 +147,213 @@ export interface MCPToolCall {
   arguments?: Record<string, unknown>;
 }
 
+// Contents of a resource, as text or base64-encoded binary
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+// A block of tool output. Servers may send types this client does not know yet,
+// which are shown as raw JSON.
+export type MCPContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource_link'; uri: string; name?: string; title?: string; description?: string; mimeType?: string }
+  | { type: 'resource'; resource: MCPResourceContents };
+
 export interface MCPToolResponse {
   success: boolean;
-  content?: unknown[];
+  content?: MCPContentBlock[];
+  // Machine-readable result, for tools that declare an output schema
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
   error?: string;
-}
\ No newline at end of file
+}
+// Server settings safe to send to the browser: secrets are never included
+// (the secret is dropped, and header and stdio environment values are masked)
+export type MCPPublicServerConfig = Omit<MCPHttpConfig, 'bearerToken'> | MCPStdioConfig;
+
+// A server in the server-side registry, as returned by /api/mcp/servers
+export interface MCPConfiguredServer {
+  id: string;
+  name: string;
+  config: MCPPublicServerConfig;
+  // Masked form of the stored bearer token, if one is set
+  tokenHint?: string;
+  tools: MCPTool[];
+  connected: boolean;
+  createdAt?: string;
+  // State of the pooled session to this server
+  session?: MCPSessionState;
+  // Sign-in state, for servers using OAuth
+  oauth?: MCPOAuthStatus;
+}
+
+export interface MCPOAuthStatus {
+  signedIn: boolean;
+  // When the access token expires, if the server said
+  expiresAt?: string;
+  // Whether an expired token can be renewed without signing in again
+  canRefresh: boolean;
+}
+
+// Lifecycle of a pooled MCP session:
+// idle (no open session) -> connecting -> connected, and on failure
+// reconnecting (waiting to retry with backoff) until it connects again or goes idle
+export type MCPSessionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface MCPSessionState {
+  status: MCPSessionStatus;
+  connectedAt?: string;
+  lastUsedAt?: string;
+  lastError?: string;
+  // Consecutive failed connection attempts
+  failures: number;
+  // When the next reconnect attempt is due, while reconnecting
+  retryAt?: string;
+  // Most recent stderr output of a stdio server process, for diagnostics
+  stderr?: string[];
+  // The server rejected the last connection until the user signs in; no retries are scheduled
+  authRequired?: boolean;
+  // Change notifications the server said it sends, once connected
+  liveUpdates?: MCPLiveUpdates;
+}
+
+export interface MCPLiveUpdates {
+  // notifications/{tools,prompts,resources}/list_changed
+  tools: boolean;
+  prompts: boolean;
+  resources: boolean;
+  // resources/subscribe, followed by notifications/resources/updated
+  subscribe: boolean;
+}
+
+// A server notification as pushed to the browser on a server's event stream
+export type MCPServerNotification =
+  | { type: 'resource-updated'; uri: string }
+  | { type: 'list-changed'; list: 'tools' | 'prompts' | 'resources' };
+
+// A configured server as referenced by the chat agent
+export interface MCPAgentServer {
+  id: string;
+  name: string;
+  config: MCPServerConfig;
+  // The stored tool list, as shown to the user when they selected tools
+  tools?: MCPTool[];
+}
+
+// Record of a single tool call made by the chat agent
+// What a policy rule does with a matching tool call: run it, refuse it, or ask the user
+export type MCPPolicyEffect = 'allow' | 'deny' | 'ask';
+
+// A condition on one argument of a tool call. Values are compared as text; arguments that
+// are not strings are compared as JSON. A missing argument satisfies only notIn and notMatches.
+export interface MCPPolicyArgumentCondition {
+  in?: string[];
+  notIn?: string[];
+  // Regular expressions
+  matches?: string;
+  notMatches?: string;
+}
+
+// Rules are checked in order and the first that matches decides. Unset fields match anything.
+export interface MCPPolicyRule {
+  id: string;
+  description?: string;
+  effect: MCPPolicyEffect;
+  // Globs over the server id and the tool name: "*" is any run of characters, "?" one
+  server?: string;
+  tool?: string;
+  riskLevels?: MCPRiskLevel[];
+  // By argument name; every condition must hold
+  arguments?: Record<string, MCPPolicyArgumentCondition>;
+}
+
+// The outcome of the policies for one tool call
+export interface MCPPolicyDecision {
+  effect: MCPPolicyEffect;
+  // The rule that matched; unset when none did and the tool's risk level decided
+  ruleId?: string;
+  reason: string;
+}
+
+// How far an "always allow" choice reaches: only this call, the rest of the
+// conversation, or every conversation with the tool's server
+export type MCPApprovalScope = 'once' | 'conversation' | 'server';
+
+// The user's decision on a tool call the agent wanted to make
+export interface MCPToolCallApproval {
+  status: 'pending' | 'approved' | 'denied';
+  scope?: MCPApprovalScope;
+  // Approved by an earlier "always allow" rather than asked for this call
+  remembered?: boolean;
+  // Set when the user approved a call they ran by hand from a server's tab
+  by?: 'user';
+}
+
+export interface MCPAgentToolCall {
+  id: string;
+  step: number;
+  serverId: string;
+  serverName: string;
+  toolName: string;
+  // The name the model called the tool by: toolName sanitized, or qualified with the
+  // server id when two servers offer the same tool
+  functionName?: string;
+  arguments: Record<string, unknown>;
+  result?: MCPToolResponse;
+  error?: string;
+  durationMs: number;
+  // Only for calls to tools that need approval
+  approval?: MCPToolCallApproval;
+  policy?: MCPPolicyDecision;
+}
+
+// Who made a tool call: the chat agent, or the user from a server's tool runner
+export type MCPAuditActor = 'agent' | 'user';
+
+// How a tool call was decided: run without asking, approved or denied by the user,
+// or blocked by a policy rule
+export type MCPAuditDecision = 'allowed' | 'approved' | 'denied' | 'blocked';
+
+// An entry of the tool call audit trail, as sent to the browser
+export interface MCPAuditEntry {
+  id: string;
+  timestamp: string;
+  actor: MCPAuditActor;
+  userId: string | null;
+  conversationId: string | null;
+  serverId: string;
+  serverName: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  resultSummary: string | null;
+  error: string | null;
+  durationMs: number;
+  decision: MCPAuditDecision;
+  policy: MCPPolicyDecision | null;
+  approval: MCPToolCallApproval | null;
+}
+
+// Sent to the browser when the agent waits for the user to approve a tool call
+export interface MCPToolApprovalRequest {
+  // Same as the tool call's id
+  id: string;
+  toolCall: MCPAgentToolCall;
+  riskLevel: MCPRiskLevel;
+  riskReason?: string;
+  // Set when a policy rule requires asking; "always allow" does not apply then
+  policyRuleId?: string;
+}
+
+// Events emitted while the chat agent runs, relayed to the browser over SSE
+export type AgentStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'tool_call_start'; toolCall: MCPAgentToolCall }
+  | { type: 'tool_call_end'; toolCall: MCPAgentToolCall }
+  | { type: 'tool_approval_request'; request: MCPToolApprovalRequest }
+  | { type: 'tool_approval_end'; id: string; approval: MCPToolCallApproval }
+  | { type: 'error'; message: string };
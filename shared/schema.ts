@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, jsonb, timestamp, integer, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { MCPAgentToolCall, MCPAuditActor, MCPAuditDecision, MCPPolicyDecision, MCPToolCallApproval } from "./mcp-types";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -15,7 +16,8 @@ export const mcpServices = pgTable("mcp_services", {
   description: text("description"),
   icon: text("icon"),
   url: text("url"),
-  token: text("token"),
+  token: text("token"), // encrypted at rest, see server/secrets.ts
+  tokenHint: text("token_hint"),
   connected: boolean("connected").default(false),
   config: jsonb("config").default({}),
   createdAt: timestamp("created_at").defaultNow(),
@@ -32,15 +34,48 @@ export const mcpTools = pgTable("mcp_tools", {
   config: jsonb("config").default({}),
 });
 
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  userId: varchar("user_id"),
+  forkedFromId: varchar("forked_from_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   type: text("type").notNull(), // 'user' | 'assistant'
   timestamp: timestamp("timestamp").defaultNow(),
   userId: varchar("user_id"),
   attachedFiles: jsonb("attached_files").default([]),
+  toolCalls: jsonb("tool_calls").default([]),
 });
 
+// One row per tool call, written once and never updated. Server, tool and conversation
+// are plain values rather than references, so entries outlive what they refer to.
+export const toolAuditLog = pgTable("tool_audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+  actor: text("actor").$type<MCPAuditActor>().notNull(),
+  userId: varchar("user_id"),
+  conversationId: varchar("conversation_id"),
+  serverId: varchar("server_id").notNull(),
+  serverName: text("server_name").notNull(),
+  toolName: text("tool_name").notNull(),
+  arguments: jsonb("arguments").$type<Record<string, unknown>>().default({}).notNull(),
+  resultSummary: text("result_summary"),
+  error: text("error"),
+  durationMs: integer("duration_ms").notNull(),
+  decision: text("decision").$type<MCPAuditDecision>().notNull(),
+  policy: jsonb("policy").$type<MCPPolicyDecision>(),
+  approval: jsonb("approval").$type<MCPToolCallApproval>(),
+}, table => [
+  index("tool_audit_log_timestamp_idx").on(table.timestamp),
+]);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -53,11 +88,18 @@ export const insertMCPServiceSchema = createInsertSchema(mcpServices).omit({
 
 export const insertMCPToolSchema = createInsertSchema(mcpTools);
 
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   id: true,
   timestamp: true,
 }).extend({
   attachedFiles: z.array(z.any()).optional(),
+  toolCalls: z.array(z.any()).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -66,7 +108,12 @@ export type MCPService = typeof mcpServices.$inferSelect;
 export type InsertMCPService = z.infer<typeof insertMCPServiceSchema>;
 export type MCPTool = typeof mcpTools.$inferSelect;
 export type InsertMCPTool = z.infer<typeof insertMCPToolSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect & {
   attachedFiles?: any[];
+  toolCalls?: MCPAgentToolCall[];
 };
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type ToolAuditEntry = typeof toolAuditLog.$inferSelect;
+export type InsertToolAuditEntry = typeof toolAuditLog.$inferInsert;